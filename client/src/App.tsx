@@ -8,45 +8,107 @@ import { Box, SxProps } from "@mui/material";
 import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver-types";
 import { HeaderPanel } from "@/components/HeaderPanel";
 import {
-  getInitialStateFromLocalStorage,
+  setLastOpenedSnippetIdToLocalStorage,
   setStateToLocalStorage,
 } from "@/services/LocalStorageUtils";
+import { getShareUrl, hasSharedStateInUrl, saveSnippet } from "@/services/ShareUtils";
+import {
+  LocalSnippet,
+  createLocalSnippet,
+  deleteLocalSnippet,
+  exportLocalSnippets,
+  getMostRecentlyModifiedSnippet,
+  getUniqueSnippetName,
+  importLocalSnippets,
+  putLocalSnippets,
+} from "@/services/SnippetStorage";
+import { FileTabsPanel } from "@/components/FileTabsPanel";
+import { OutlinePanel } from "@/components/OutlinePanel";
+import {
+  EditorSettings,
+  PlaygroundState,
+  apiAddressPrefix,
+  defaultEditorSettings,
+  mainFileName,
+} from "@/components/PlaygroundSettings";
 import { ProblemsPanel } from "@/components/ProblemsPanel";
+import { getConfigSettings } from "@/components/PyrightConfigSettings";
 import { RightPanel } from "@/components/RightPanel";
-import type { LspSettings } from "@/LspMonaco/services/LspSession";
+import { SnippetsPanel } from "@/components/SnippetsPanel";
+import type {
+  ConfigSchema,
+  LanguageServerVersions,
+  LibraryPackages,
+  LspSettings,
+} from "@/LspMonaco/services/LspSession";
 import { Editor } from "@monaco-editor/react";
-import { useMonacoLsp } from "./LspMonaco";
+import {
+  getConfigSchema,
+  getLanguageServerVersions,
+  getLibraryPackages,
+  getStubFileName,
+  isValidFileName,
+  useMonacoLsp,
+} from "./LspMonaco";
 import editorTheme from "@/assets/theme.json?raw";
 
-const initialState = getInitialStateFromLocalStorage();
+// State of a newly-created snippet.
+const emptyState: PlaygroundState = { code: "", settings: { configOverrides: {} } };
+
+export interface AppProps {
+  // Snippets stored in the browser (including one restored from a shared
+  // link) and the one that is initially open.
+  initialSnippets: LocalSnippet[];
+  initialSnippetId: string;
+}
+
+export default function App({ initialSnippets, initialSnippetId }: AppProps) {
+  const [snippets, setSnippets] = useState(initialSnippets);
+  const [activeSnippetId, setActiveSnippetId] = useState(initialSnippetId);
+  const initialState = initialSnippets.find((snippet) => snippet.id === initialSnippetId)!.state;
 
-export default function App() {
   const [lspSettings, setLspSettings] = useState<LspSettings>(initialState.settings);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>({
+    ...defaultEditorSettings,
+    ...initialState.editorSettings,
+  });
+  const [languageServerVersions, setLanguageServerVersions] = useState<LanguageServerVersions>();
+  const [libraryPackages, setLibraryPackages] = useState<LibraryPackages>();
+  const [configSchema, setConfigSchema] = useState<ConfigSchema>();
 
   // #region - Monaco LSP
 
   // Cache LSP config to avoid re-creating the session on every render.
   const lspConfig = useMemo(() => {
-    const apiAddressPrefix = "http://localhost:8080/lsp/";
     return {
       settings: lspSettings,
       apiAddressPrefix,
+      transport: "websocket" as const,
     };
   }, [lspSettings]);
 
   const {
-    code,
+    files,
+    activeFileName,
+    activeFileUri,
+    selectFile,
+    addFile,
+    removeFile,
+    replaceFiles,
+    getCurrentFiles,
     editorOptions,
     isWaitingForDiagnostics,
     diagnostics,
+    documentSymbols,
     error,
+    supportsInlayHints,
     editorRef,
     handleEditorDidMount,
-    handleCodeChange,
   } = useMonacoLsp({
-    initialCode: initialState.code,
+    initialFiles: { [mainFileName]: initialState.code, ...initialState.extraFiles },
     theme: editorTheme,
     lspConfig,
+    inlayHints: editorSettings.inlayHints,
   });
 
   const sessionError = useMemo<Diagnostic[] | null>(() => {
@@ -70,6 +132,78 @@ export default function App() {
 
   // #endregion
 
+  useEffect(() => {
+    getLanguageServerVersions(apiAddressPrefix)
+      .then((versions) => {
+        setLanguageServerVersions(versions);
+
+        // If the previously selected version is no longer installed on the
+        // server, fall back to the default version.
+        setLspSettings((settings) => {
+          if (
+            !settings.pyrightVersion ||
+            versions.versions.some((version) => version.id === settings.pyrightVersion)
+          ) {
+            return settings;
+          }
+
+          return { ...settings, pyrightVersion: undefined };
+        });
+      })
+      .catch(() => {
+        // The version picker is hidden if the versions are unavailable.
+      });
+
+    getLibraryPackages(apiAddressPrefix)
+      .then((packages) => {
+        setLibraryPackages(packages);
+
+        // Drop any previously selected packages that are no longer
+        // installed on the server.
+        setLspSettings((settings) => {
+          const selectedPackages = settings.packages?.filter((name) =>
+            packages.packages.some((libraryPackage) => libraryPackage.name === name),
+          );
+
+          if (selectedPackages?.length === settings.packages?.length) {
+            return settings;
+          }
+
+          return {
+            ...settings,
+            packages: selectedPackages?.length ? selectedPackages : undefined,
+          };
+        });
+      })
+      .catch(() => {
+        // The package picker is hidden if the packages are unavailable.
+      });
+  }, []);
+
+  // Fetch the settings supported by the selected language server. The
+  // settings known to the playground are used if they're unavailable.
+  useEffect(() => {
+    let isCurrent = true;
+
+    getConfigSchema(apiAddressPrefix, lspSettings.pyrightVersion)
+      .then((schema) => {
+        if (isCurrent) {
+          setConfigSchema(schema);
+        }
+      })
+      .catch(() => {
+        if (isCurrent) {
+          setConfigSchema(undefined);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [lspSettings.pyrightVersion]);
+
+  const configSettings = useMemo(() => getConfigSettings(configSchema), [configSchema]);
+
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
       // Swallow command-s or ctrl-s to prevent browser save.
@@ -84,26 +218,266 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    setStateToLocalStorage({ code: code, settings: lspSettings });
-  }, [code, lspSettings]);
+    // Opening a shared link while the playground is already open changes
+    // only the fragment, which doesn't reload the page.
+    const handleHashChange = () => {
+      if (hasSharedStateInUrl()) {
+        window.location.reload();
+      }
+    };
+
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  // Save changes to the open snippet.
+  useEffect(() => {
+    const { [mainFileName]: code, ...extraFiles } = files;
+    const state = { code: code ?? "", extraFiles, settings: lspSettings, editorSettings };
+    setStateToLocalStorage(state);
+
+    const snippet = snippets.find((snippet) => snippet.id === activeSnippetId);
+    if (snippet && JSON.stringify(snippet.state) !== JSON.stringify(state)) {
+      const updatedSnippet = { ...snippet, state, modifiedTime: Date.now() };
+      setSnippets((prevSnippets) => {
+        return prevSnippets.map((s) => (s.id === updatedSnippet.id ? updatedSnippet : s));
+      });
+      putLocalSnippets([updatedSnippet]).catch(() => {
+        // The changes are still saved in local storage.
+      });
+    }
+  }, [files, lspSettings, editorSettings, snippets, activeSnippetId]);
+
+  // Returns the current state, including edits that haven't been saved yet.
+  const getPlaygroundState = (): PlaygroundState => {
+    const { [mainFileName]: code, ...extraFiles } = getCurrentFiles();
+    return { code: code ?? "", extraFiles, settings: lspSettings, editorSettings };
+  };
+
+  // #region - Snippets
+
+  // Adds or replaces snippets in the list and in the database.
+  const updateSnippets = (updatedSnippets: LocalSnippet[]) => {
+    setSnippets((prevSnippets) => [
+      ...prevSnippets.filter((s) => !updatedSnippets.some((updated) => updated.id === s.id)),
+      ...updatedSnippets,
+    ]);
+
+    putLocalSnippets(updatedSnippets).catch(() => {
+      // The snippets are available until the page is closed.
+    });
+  };
+
+  // Opens a snippet after saving any unsaved edits to the open snippet.
+  const openSnippet = (snippet: LocalSnippet) => {
+    const activeSnippet = snippets.find((s) => s.id === activeSnippetId);
+    const state = getPlaygroundState();
+    if (activeSnippet && JSON.stringify(activeSnippet.state) !== JSON.stringify(state)) {
+      updateSnippets([{ ...activeSnippet, state, modifiedTime: Date.now() }]);
+    }
+
+    showSnippet(snippet);
+  };
+
+  // Replaces the files and settings with those of a snippet.
+  const showSnippet = (snippet: LocalSnippet) => {
+    setActiveSnippetId(snippet.id);
+    setLastOpenedSnippetIdToLocalStorage(snippet.id);
+
+    replaceFiles({ [mainFileName]: snippet.state.code, ...snippet.state.extraFiles });
+    setLspSettings(snippet.state.settings);
+    setEditorSettings({ ...defaultEditorSettings, ...snippet.state.editorSettings });
+  };
+
+  const handleCreateSnippet = () => {
+    const snippet = createLocalSnippet(getUniqueSnippetName("Untitled", snippets), emptyState);
+
+    updateSnippets([snippet]);
+    openSnippet(snippet);
+  };
+
+  const handleRenameSnippet = (id: string) => {
+    const snippet = snippets.find((s) => s.id === id);
+    const name = snippet ? window.prompt("Snippet name", snippet.name)?.trim() : undefined;
+    if (snippet && name) {
+      updateSnippets([{ ...snippet, name }]);
+    }
+  };
+
+  const handleDuplicateSnippet = (id: string) => {
+    const snippet = snippets.find((s) => s.id === id);
+    if (snippet) {
+      const state = id === activeSnippetId ? getPlaygroundState() : snippet.state;
+      updateSnippets([
+        createLocalSnippet(getUniqueSnippetName(`${snippet.name} copy`, snippets), state),
+      ]);
+    }
+  };
+
+  const handleDeleteSnippet = (id: string) => {
+    const snippet = snippets.find((s) => s.id === id);
+    if (!snippet || !window.confirm(`Delete "${snippet.name}"?`)) {
+      return;
+    }
+
+    const remainingSnippets = snippets.filter((s) => s.id !== id);
+    setSnippets(remainingSnippets);
+    deleteLocalSnippet(id).catch(() => {
+      // Fall through.
+    });
+
+    // There must always be an open snippet.
+    if (id === activeSnippetId) {
+      let nextSnippet = getMostRecentlyModifiedSnippet(remainingSnippets);
+      if (!nextSnippet) {
+        nextSnippet = createLocalSnippet("Untitled", emptyState);
+        updateSnippets([nextSnippet]);
+      }
+
+      showSnippet(nextSnippet);
+    }
+  };
+
+  const handleImportSnippets = (file: File) => {
+    file
+      .text()
+      .then((json) => {
+        const importedSnippets = importLocalSnippets(json);
+        updateSnippets(importedSnippets);
+        window.alert(`Imported ${importedSnippets.length} snippet(s).`);
+      })
+      .catch((err) => {
+        window.alert(`Unable to import snippets: ${err.message}`);
+      });
+  };
+
+  const handleExportSnippets = () => {
+    const activeSnippet = snippets.find((s) => s.id === activeSnippetId);
+    const exportedSnippets = snippets.map((s) =>
+      s === activeSnippet ? { ...s, state: getPlaygroundState() } : s,
+    );
+
+    const blob = new Blob([exportLocalSnippets(exportedSnippets)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "pyright-playground-snippets.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // #endregion
+
+  const handleShare = async () => {
+    return copyLink(await getShareUrl(getPlaygroundState()));
+  };
+
+  const handleSaveSnippet = async () => {
+    return copyLink(await saveSnippet(apiAddressPrefix, getPlaygroundState()));
+  };
+
+  // Copies a link to the clipboard. Returns false if it couldn't be copied.
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // The clipboard isn't available (e.g. the page isn't focused), so
+      // let the user copy the link.
+      window.prompt("Copy this link to share the code and settings", url);
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleAddFile = () => {
+    const fileName = window.prompt("File name (for example, models.py or pkg/__init__.py)");
+    if (!fileName) {
+      return;
+    }
+
+    if (!isValidFileName(fileName)) {
+      window.alert(`"${fileName}" is not a valid Python module file name.`);
+    } else if (!addFile(fileName)) {
+      window.alert(`A file named "${fileName}" already exists.`);
+    }
+  };
+
+  const handleAddStubFile = () => {
+    const moduleName = window.prompt(
+      "Name of the module to stub (for example, requests or requests.models)",
+    );
+    if (!moduleName) {
+      return;
+    }
+
+    const fileName = getStubFileName(moduleName.trim());
+    if (!fileName) {
+      window.alert(`"${moduleName}" is not a valid module name.`);
+    } else if (!addFile(fileName)) {
+      window.alert(`A stub file for "${moduleName}" already exists.`);
+    }
+  };
 
   return (
     <Box sx={styles.container}>
-      <HeaderPanel />
+      <HeaderPanel onShare={handleShare} onSaveSnippet={handleSaveSnippet} />
       <Box sx={styles.middlePanelContainer}>
-        <Editor
-          options={editorOptions}
-          language={"python"}
-          defaultValue={initialState.code}
-          theme="light"
-          onChange={handleCodeChange}
-          onMount={handleEditorDidMount}
+        <SnippetsPanel
+          snippets={snippets}
+          activeSnippetId={activeSnippetId}
+          onOpenSnippet={(id) => {
+            const snippet = snippets.find((s) => s.id === id);
+            if (snippet && id !== activeSnippetId) {
+              openSnippet(snippet);
+            }
+          }}
+          onCreateSnippet={handleCreateSnippet}
+          onRenameSnippet={handleRenameSnippet}
+          onDuplicateSnippet={handleDuplicateSnippet}
+          onDeleteSnippet={handleDeleteSnippet}
+          onImportSnippets={handleImportSnippets}
+          onExportSnippets={handleExportSnippets}
+        />
+        <Box sx={styles.editorContainer}>
+          <FileTabsPanel
+            fileNames={Object.keys(files)}
+            activeFileName={activeFileName}
+            fixedFileNames={[mainFileName]}
+            onSelectFile={selectFile}
+            onAddFile={handleAddFile}
+            onAddStubFile={handleAddStubFile}
+            onRemoveFile={removeFile}
+          />
+          <Box sx={styles.editor}>
+            <Editor
+              options={editorOptions}
+              language={"python"}
+              path={activeFileUri}
+              defaultValue={files[activeFileName]}
+              theme="light"
+              onMount={handleEditorDidMount}
+            />
+          </Box>
+        </Box>
+        <OutlinePanel
+          symbols={documentSymbols}
+          onSelectRange={(range) => {
+            editorRef.selectRange(range);
+            editorRef.focus();
+          }}
         />
         <RightPanel
           settings={lspSettings}
+          editorSettings={editorSettings}
+          languageServerVersions={languageServerVersions}
+          libraryPackages={libraryPackages}
+          configSettings={configSettings}
+          supportsInlayHints={supportsInlayHints}
           onUpdateSettings={(settings: LspSettings) => {
             setLspSettings(settings);
           }}
+          onUpdateEditorSettings={setEditorSettings}
         />
       </Box>
       <ProblemsPanel
@@ -130,4 +504,14 @@ const styles: Record<string, SxProps> = {
     flexDirection: "row",
     flex: 1,
   },
+  editorContainer: {
+    display: "flex",
+    flexDirection: "column",
+    flex: 1,
+    minWidth: 0,
+  },
+  editor: {
+    flex: 1,
+    minHeight: 0,
+  },
 };
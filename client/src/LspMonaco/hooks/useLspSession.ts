@@ -1,24 +1,37 @@
 import { useEffect, useState } from "react";
 import type { Diagnostic } from "vscode-languageserver-types";
-import { type LspConfig, LspSession } from "../services/LspSession";
+import { type LspConfig, LspSession, type SessionCapabilities } from "../services/LspSession";
 
 type UseLspSessionProps = LspConfig;
 
 export function useLspSession(lspConfig: UseLspSessionProps) {
   const [lspSession, setLspSession] = useState<LspSession>(() => new LspSession(lspConfig));
   const [isWaitingForDiagnostics, setIsWaitingForDiagnostics] = useState(false);
-  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [diagnostics, setDiagnostics] = useState<{ [uri: string]: Diagnostic[] }>({});
   const [error, setError] = useState<string | null>(null);
+  const [capabilities, setCapabilities] = useState<SessionCapabilities | undefined>(undefined);
 
   useEffect(() => {
+    // The language server (and therefore its capabilities) can change
+    // when the settings change, so ignore a session that was replaced.
+    let isCurrent = true;
+
     const session = new LspSession(lspConfig, {
       onWaitingForDiagnostics: setIsWaitingForDiagnostics,
-      onDiagnostics: setDiagnostics,
+      onDiagnostics: (uri, fileDiagnostics) => {
+        setDiagnostics((prevDiagnostics) => ({ ...prevDiagnostics, [uri]: fileDiagnostics }));
+      },
       onError: setError,
+      onSessionCapabilities: (sessionCapabilities) => {
+        if (isCurrent) {
+          setCapabilities(sessionCapabilities);
+        }
+      },
     });
     setLspSession(session);
 
     return () => {
+      isCurrent = false;
       session.shutdown();
     };
   }, [lspConfig]); // NOTE: lspConfig must be a stable reference!
@@ -28,5 +41,7 @@ export function useLspSession(lspConfig: UseLspSessionProps) {
     isWaitingForDiagnostics,
     diagnostics,
     error,
+    supportsInlayHints: capabilities?.inlayHints,
+    supportsCodeActions: capabilities?.codeActions,
   };
 }
@@ -1,17 +1,22 @@
 import type { OnMount } from "@monaco-editor/react";
 import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
 import { useEffect, useRef, useState } from "react";
-import type { Range } from "vscode-languageserver-types";
+import type { DocumentSymbol, Range } from "vscode-languageserver-types";
 import type { LspConfig } from "../services/LspSession";
-import { convertDiagnostics, convertRange } from "../utils/typeConversions";
+import { getFileNameFromUri, getFileUri, isValidFileName } from "../utils/fileUris";
+import { convertContentChanges, convertDiagnostics, convertRange } from "../utils/typeConversions";
 import { useLspSession } from "./useLspSession";
 import { useMonacoProviders } from "./useMonacoProviders";
 import useDebounce from "./useDebounce";
 
 interface UseMonacoLspProps {
-  initialCode: string;
+  // Initial contents of the files in the workspace, indexed by file name
+  // (e.g. "main.py" or "pkg/__init__.py"). The first file is initially active.
+  initialFiles: { [fileName: string]: string };
   theme?: string;
   lspConfig: LspConfig;
+  // Whether to display inlay hints (e.g. inferred types) in the editor.
+  inlayHints?: boolean;
 }
 
 export interface MonacoEditorRef {
@@ -40,39 +45,181 @@ const editorOptions: monaco.editor.IStandaloneEditorConstructionOptions = {
   "semanticHighlighting.enabled": true,
 };
 
-export function useMonacoLsp({ initialCode, theme, lspConfig }: UseMonacoLspProps) {
+export function useMonacoLsp({
+  initialFiles,
+  theme,
+  lspConfig,
+  inlayHints = true,
+}: UseMonacoLspProps) {
   const monacoRef = useRef<typeof monaco>();
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor>();
 
-  const [code, setCode] = useState(initialCode);
+  const [editor, setEditor] = useState<monaco.editor.IStandaloneCodeEditor | null>(null);
+  const [files, setFiles] = useState(initialFiles);
+  const [activeFileName, setActiveFileName] = useState(() => Object.keys(initialFiles)[0]);
 
-  const { lspSession, isWaitingForDiagnostics, diagnostics, error } = useLspSession(lspConfig);
+  // Selection to apply once the editor switches to another file (e.g.
+  // after navigating to a definition in that file).
+  const pendingSelectionRef = useRef<{
+    uri: string;
+    selectionOrPosition?: monaco.IRange | monaco.IPosition;
+  }>();
+
+  const [documentSymbols, setDocumentSymbols] = useState<DocumentSymbol[]>([]);
+
+  const {
+    lspSession,
+    isWaitingForDiagnostics,
+    diagnostics,
+    error,
+    supportsInlayHints,
+    supportsCodeActions,
+  } = useLspSession(lspConfig);
+
+  // Model change listeners outlive a session, so they access it through a ref.
+  const lspSessionRef = useRef(lspSession);
+  useEffect(() => {
+    lspSessionRef.current = lspSession;
+  }, [lspSession]);
 
   // Register providers when the editor is mounted
   useMonacoProviders({
-    model: editorRef.current?.getModel() ?? null,
+    editor,
     lspSession,
+    inlayHints,
+    codeActions: !!supportsCodeActions,
   });
 
-  // Trigger initial diagnostics and subsequent updates
+  // Trigger initial diagnostics and subsequent updates. The model contents
+  // are used when available because the session applies subsequent edits
+  // to them incrementally.
   useEffect(() => {
-    lspSession.updateCode(code);
-  }, [lspSession, code]);
+    Object.keys(files).forEach((fileName) => {
+      const code = getModel(fileName)?.getValue() ?? files[fileName];
+      lspSession.updateFile(getFileUri(fileName), code);
+    });
+  }, [lspSession, files]);
+
+  // Refresh the symbols declared in the active file. The files are updated
+  // after a delay, so this doesn't happen on every keystroke.
+  useEffect(() => {
+    let isCanceled = false;
+    const code = getModel(activeFileName)?.getValue() ?? files[activeFileName];
+
+    lspSession
+      .getDocumentSymbols(getFileUri(activeFileName), code)
+      .then((symbols) => {
+        if (!isCanceled) {
+          setDocumentSymbols(symbols);
+        }
+      })
+      .catch(() => {
+        // Keep the previous symbols.
+      });
+
+    return () => {
+      isCanceled = true;
+    };
+  }, [lspSession, files, activeFileName]);
+
+  // Render diagnostics on the model associated with each file
+  useEffect(() => {
+    const monacoInstance = monacoRef.current;
+    if (!monacoInstance || !editor) {
+      return;
+    }
+
+    Object.keys(diagnostics).forEach((uri) => {
+      const model = monacoInstance.editor.getModel(monacoInstance.Uri.parse(uri));
+      if (model) {
+        const markers = convertDiagnostics(diagnostics[uri]);
+        monacoInstance.editor.setModelMarkers(model, "pyright", markers);
+      }
+    });
+  }, [editor, diagnostics]);
 
-  // Render diagnostics
+  // Navigation within the editor (e.g. "go to definition") can only open the
+  // current model unless we handle requests to open other files.
   useEffect(() => {
-    if (!monacoRef.current || !editorRef.current) {
+    const monacoInstance = monacoRef.current;
+    if (!monacoInstance || !editor) {
       return;
     }
 
-    const model = editorRef.current.getModel();
-    if (!model) {
+    const opener = monacoInstance.editor.registerEditorOpener({
+      openCodeEditor: (source, resource, selectionOrPosition) => {
+        const fileName = getFileNameFromUri(resource.toString());
+        if (source !== editor || !fileName || !monacoInstance.editor.getModel(resource)) {
+          return false;
+        }
+
+        pendingSelectionRef.current = { uri: resource.toString(), selectionOrPosition };
+        setActiveFileName(fileName);
+        return true;
+      },
+    });
+
+    return () => opener.dispose();
+  }, [editor]);
+
+  // Apply the pending selection after the editor has switched files
+  useEffect(() => {
+    const pendingSelection = pendingSelectionRef.current;
+    const editor = editorRef.current;
+    if (!pendingSelection || editor?.getModel()?.uri.toString() !== pendingSelection.uri) {
       return;
     }
 
-    const markers = convertDiagnostics(diagnostics);
-    monacoRef.current.editor.setModelMarkers(model, "pyright", markers);
-  }, [diagnostics]);
+    pendingSelectionRef.current = undefined;
+
+    const selectionOrPosition = pendingSelection.selectionOrPosition;
+    if (monaco.Range.isIRange(selectionOrPosition)) {
+      editor.setSelection(selectionOrPosition);
+      editor.revealRangeInCenterIfOutsideViewport(selectionOrPosition);
+    } else if (selectionOrPosition) {
+      editor.setPosition(selectionOrPosition);
+      editor.revealPositionInCenterIfOutsideViewport(selectionOrPosition);
+    }
+    editor.focus();
+  }, [activeFileName]);
+
+  const getModel = (fileName: string) => {
+    const monacoInstance = monacoRef.current;
+    return monacoInstance?.editor.getModel(monacoInstance.Uri.parse(getFileUri(fileName)));
+  };
+
+  // Handle code changes in any of the models
+  const _handleCodeChange = () => {
+    setFiles((prevFiles) => {
+      let changed = false;
+      const nextFiles = { ...prevFiles };
+
+      Object.keys(prevFiles).forEach((fileName) => {
+        const model = getModel(fileName);
+        if (model && model.getValue() !== prevFiles[fileName]) {
+          nextFiles[fileName] = model.getValue();
+          changed = true;
+        }
+      });
+
+      return changed ? nextFiles : prevFiles;
+    });
+  };
+
+  const handleCodeChange = useDebounce(_handleCodeChange, 500);
+
+  // Creates the model for a file (unless the editor already created it)
+  // and starts tracking changes to it.
+  const createModel = (monacoInstance: typeof monaco, fileName: string, code: string) => {
+    const uri = monacoInstance.Uri.parse(getFileUri(fileName));
+    const model =
+      monacoInstance.editor.getModel(uri) ?? monacoInstance.editor.createModel(code, "python", uri);
+
+    model.onDidChangeContent((event) => {
+      lspSessionRef.current.applyFileChanges(uri.toString(), convertContentChanges(event.changes));
+      handleCodeChange();
+    });
+  };
 
   // Handle editor mount
   const handleEditorDidMount: OnMount = (
@@ -83,20 +230,91 @@ export function useMonacoLsp({ initialCode, theme, lspConfig }: UseMonacoLspProp
     editorRef.current = editor;
     editor.focus();
 
+    Object.keys(files).forEach((fileName) => {
+      createModel(monacoInstance, fileName, files[fileName]);
+    });
+
     if (theme) {
       monacoInstance.editor.defineTheme("custom-theme", JSON.parse(theme));
       monacoInstance.editor.setTheme("custom-theme");
     }
+
+    setEditor(editor);
   };
 
-  // Handle code changes
-  const _handleCodeChange = (value?: string) => {
-    if (value) {
-      setCode(value);
+  // Adds a new file to the workspace and makes it the active file.
+  // Returns false if the file name is invalid or already in use.
+  const addFile = (fileName: string, code = ""): boolean => {
+    const monacoInstance = monacoRef.current;
+    if (!monacoInstance || !isValidFileName(fileName) || files[fileName] !== undefined) {
+      return false;
     }
+
+    createModel(monacoInstance, fileName, code);
+    setFiles((prevFiles) => ({ ...prevFiles, [fileName]: code }));
+    setActiveFileName(fileName);
+    return true;
   };
 
-  const handleCodeChange = useDebounce(_handleCodeChange, 500);
+  // Removes a file from the workspace. The last remaining file cannot be removed.
+  const removeFile = (fileName: string) => {
+    const remainingFileNames = Object.keys(files).filter((name) => name !== fileName);
+    if (remainingFileNames.length === 0 || files[fileName] === undefined) {
+      return;
+    }
+
+    if (fileName === activeFileName) {
+      setActiveFileName(remainingFileNames[0]);
+    }
+
+    setFiles((prevFiles) => {
+      const nextFiles = { ...prevFiles };
+      delete nextFiles[fileName];
+      return nextFiles;
+    });
+
+    lspSession.removeFile(getFileUri(fileName));
+    getModel(fileName)?.dispose();
+  };
+
+  // Replaces all of the files in the workspace (e.g. when another project
+  // is opened) and makes the first file active.
+  const replaceFiles = (newFiles: { [fileName: string]: string }) => {
+    const monacoInstance = monacoRef.current;
+    if (!monacoInstance || Object.keys(newFiles).length === 0) {
+      return;
+    }
+
+    Object.keys(files).forEach((fileName) => {
+      if (newFiles[fileName] === undefined) {
+        lspSession.removeFile(getFileUri(fileName));
+        getModel(fileName)?.dispose();
+      }
+    });
+
+    Object.keys(newFiles).forEach((fileName) => {
+      const model = getModel(fileName);
+      if (!model) {
+        createModel(monacoInstance, fileName, newFiles[fileName]);
+      } else if (model.getValue() !== newFiles[fileName]) {
+        model.setValue(newFiles[fileName]);
+      }
+    });
+
+    setFiles(newFiles);
+    setActiveFileName(Object.keys(newFiles)[0]);
+  };
+
+  // Returns the current contents of the files. Unlike "files", this includes
+  // edits that haven't been reported yet.
+  const getCurrentFiles = (): { [fileName: string]: string } => {
+    const currentFiles: { [fileName: string]: string } = {};
+    Object.keys(files).forEach((fileName) => {
+      currentFiles[fileName] = getModel(fileName)?.getValue() ?? files[fileName];
+    });
+
+    return currentFiles;
+  };
 
   // Expose imperative methods
   const publicEditorRef: MonacoEditorRef = {
@@ -114,13 +332,21 @@ export function useMonacoLsp({ initialCode, theme, lspConfig }: UseMonacoLspProp
   };
 
   return {
-    code,
+    files,
+    activeFileName,
+    activeFileUri: getFileUri(activeFileName),
+    selectFile: setActiveFileName,
+    addFile,
+    removeFile,
+    replaceFiles,
+    getCurrentFiles,
     editorOptions,
     isWaitingForDiagnostics,
-    diagnostics,
+    diagnostics: diagnostics[getFileUri(activeFileName)] ?? [],
+    documentSymbols,
     error,
+    supportsInlayHints,
     editorRef: publicEditorRef,
     handleEditorDidMount,
-    handleCodeChange,
   };
 }
@@ -1,10 +1,19 @@
 import { useEffect } from "react";
 import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
-import { TextDocumentEdit } from "vscode-languageserver-types";
+import type { Location, Position } from "vscode-languageserver-types";
 import type { LspSession } from "../services/LspSession";
 import {
+  convertCodeAction,
   convertCompletionItem,
+  convertDocumentHighlights,
+  convertDocumentSymbols,
+  convertInlayHints,
+  convertLocations,
+  convertMarkers,
+  convertMonacoRange,
   convertRange,
+  convertSemanticTokens,
+  convertWorkspaceEdit,
   isExtendedCompletionItem,
 } from "../utils/typeConversions";
 import { useMonaco } from "@monaco-editor/react";
@@ -16,10 +25,14 @@ const handleHoverRequest =
     position: monaco.Position,
   ): Promise<monaco.languages.Hover | null> => {
     try {
-      const hoverInfo = await lspSession.getHoverForPosition(model.getValue(), {
-        line: position.lineNumber - 1,
-        character: position.column - 1,
-      });
+      const hoverInfo = await lspSession.getHoverForPosition(
+        model.uri.toString(),
+        model.getValue(),
+        {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+      );
 
       return {
         contents: [{ value: hoverInfo.contents.value }],
@@ -30,36 +43,146 @@ const handleHoverRequest =
     }
   };
 
-const handleSemanticTokensRequest = (lspSession: LspSession) => ({
-  getLegend: () => ({
-    tokenTypes: [
-      "variable",
-      "parameter",
-      "function",
-      "class",
-      "type",
-      "decorator",
-      "enum",
-      "interface",
-      "typeParameter",
-      "namespace",
-    ],
-    tokenModifiers: ["definition", "async", "readonly", "static", "local"],
-  }),
-  provideDocumentSemanticTokens: async (model: monaco.editor.ITextModel) => {
+// The definition, declaration and type definition requests take the same
+// arguments, so they share a handler.
+type LocationRequest = (uri: string, code: string, position: Position) => Promise<Location[]>;
+
+const handleLocationRequest =
+  (request: LocationRequest) =>
+  async (
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+  ): Promise<monaco.languages.Location[] | null> => {
+    try {
+      const locations = await request(model.uri.toString(), model.getValue(), {
+        line: position.lineNumber - 1,
+        character: position.column - 1,
+      });
+
+      return convertLocations(locations);
+    } catch {
+      return null;
+    }
+  };
+
+const handleReferencesRequest =
+  (lspSession: LspSession) =>
+  async (
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    context: monaco.languages.ReferenceContext,
+  ): Promise<monaco.languages.Location[] | null> => {
+    try {
+      const locations = await lspSession.getReferencesForPosition(
+        model.uri.toString(),
+        model.getValue(),
+        {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+        context.includeDeclaration,
+      );
+
+      return convertLocations(locations);
+    } catch {
+      return null;
+    }
+  };
+
+const handleDocumentHighlightRequest =
+  (lspSession: LspSession) =>
+  async (
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+  ): Promise<monaco.languages.DocumentHighlight[] | null> => {
     try {
-      const tokens = await lspSession.getSemanticTokens(model.getValue());
+      const highlights = await lspSession.getDocumentHighlightsForPosition(
+        model.uri.toString(),
+        model.getValue(),
+        {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+      );
+
+      return highlights ? convertDocumentHighlights(highlights) : null;
+    } catch {
+      return null;
+    }
+  };
+
+const handleDocumentSymbolRequest =
+  (lspSession: LspSession) =>
+  async (model: monaco.editor.ITextModel): Promise<monaco.languages.DocumentSymbol[] | null> => {
+    try {
+      const symbols = await lspSession.getDocumentSymbols(model.uri.toString(), model.getValue());
+      return convertDocumentSymbols(symbols);
+    } catch {
+      return null;
+    }
+  };
+
+const handleInlayHintsRequest =
+  (lspSession: LspSession) =>
+  async (
+    model: monaco.editor.ITextModel,
+    range: monaco.Range,
+  ): Promise<monaco.languages.InlayHintList | null> => {
+    try {
+      const hints = await lspSession.getInlayHints(
+        model.uri.toString(),
+        model.getValue(),
+        convertMonacoRange(range),
+      );
+
       return {
-        data: new Uint32Array(tokens.data),
-        resultId: tokens.resultId,
+        hints: hints ? convertInlayHints(hints) : [],
+        dispose: () => {},
       };
-    } catch (error) {
-      console.error("Failed to get semantic tokens:", error);
+    } catch {
       return null;
     }
-  },
-  releaseDocumentSemanticTokens: () => {},
-});
+  };
+
+// The legend is reported by the session's language server, so it's not known
+// until a session has been created. Monaco asks for the legend only after the
+// first tokens are provided, by which time the legend has been fetched.
+const handleSemanticTokensRequest = (
+  lspSession: LspSession,
+): monaco.languages.DocumentSemanticTokensProvider => {
+  let legend: monaco.languages.SemanticTokensLegend = { tokenTypes: [], tokenModifiers: [] };
+
+  return {
+    getLegend: () => legend,
+    provideDocumentSemanticTokens: async (
+      model: monaco.editor.ITextModel,
+      lastResultId: string | null,
+    ) => {
+      try {
+        const sessionLegend = await lspSession.getSemanticTokensLegend();
+        if (!sessionLegend) {
+          return null;
+        }
+
+        legend = sessionLegend;
+
+        const tokens = lastResultId
+          ? await lspSession.getSemanticTokensDelta(
+              model.uri.toString(),
+              model.getValue(),
+              lastResultId,
+            )
+          : await lspSession.getSemanticTokens(model.uri.toString(), model.getValue());
+
+        return tokens ? convertSemanticTokens(tokens) : null;
+      } catch (error) {
+        console.error("Failed to get semantic tokens:", error);
+        return null;
+      }
+    },
+    releaseDocumentSemanticTokens: () => {},
+  };
+};
 
 const handleRenameRequest =
   (lspSession: LspSession) =>
@@ -70,6 +193,7 @@ const handleRenameRequest =
   ): Promise<monaco.languages.WorkspaceEdit | null> => {
     try {
       const renameEdits = await lspSession.getRenameEditsForPosition(
+        model.uri.toString(),
         model.getValue(),
         {
           line: position.lineNumber - 1,
@@ -78,20 +202,32 @@ const handleRenameRequest =
         newName,
       );
 
-      const edits: monaco.languages.IWorkspaceTextEdit[] =
-        renameEdits?.documentChanges
-          ?.filter(TextDocumentEdit.is)
-          .flatMap((docChange) => docChange.edits)
-          .map((textEdit) => ({
-            resource: model.uri,
-            versionId: undefined,
-            textEdit: {
-              range: convertRange(textEdit.range),
-              text: textEdit.newText,
-            },
-          })) ?? [];
-
-      return { edits };
+      return convertWorkspaceEdit(renameEdits ?? {});
+    } catch {
+      return null;
+    }
+  };
+
+const handleCodeActionRequest =
+  (lspSession: LspSession) =>
+  async (
+    model: monaco.editor.ITextModel,
+    range: monaco.Range,
+    context: monaco.languages.CodeActionContext,
+  ): Promise<monaco.languages.CodeActionList | null> => {
+    try {
+      const codeActions = await lspSession.getCodeActionsForRange(
+        model.uri.toString(),
+        model.getValue(),
+        convertMonacoRange(range),
+        convertMarkers(context.markers),
+        context.only ? [context.only] : undefined,
+      );
+
+      return {
+        actions: codeActions.map(convertCodeAction),
+        dispose: () => {},
+      };
     } catch {
       return null;
     }
@@ -104,10 +240,14 @@ const handleSignatureHelpRequest =
     position: monaco.Position,
   ): Promise<monaco.languages.SignatureHelpResult | null> => {
     try {
-      const sigInfo = await lspSession.getSignatureHelpForPosition(model.getValue(), {
-        line: position.lineNumber - 1,
-        character: position.column - 1,
-      });
+      const sigInfo = await lspSession.getSignatureHelpForPosition(
+        model.uri.toString(),
+        model.getValue(),
+        {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+      );
 
       return {
         value: {
@@ -136,10 +276,14 @@ const handleProvideCompletionRequest =
     position: monaco.Position,
   ): Promise<monaco.languages.CompletionList | null> => {
     try {
-      const completionInfo = await lspSession.getCompletionForPosition(model.getValue(), {
-        line: position.lineNumber - 1,
-        character: position.column - 1,
-      });
+      const completionInfo = await lspSession.getCompletionForPosition(
+        model.uri.toString(),
+        model.getValue(),
+        {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+      );
 
       return {
         suggestions: completionInfo.items.map((item) => {
@@ -171,15 +315,26 @@ const handleResolveCompletionRequest =
   };
 
 interface UseMonacoProvidersProps {
-  model: monaco.editor.ITextModel | null;
+  editor: monaco.editor.IStandaloneCodeEditor | null;
   lspSession: LspSession;
+  inlayHints: boolean;
+  // Whether the session's language server provides code actions that edit
+  // the code.
+  codeActions: boolean;
 }
 
-export function useMonacoProviders({ model, lspSession }: UseMonacoProvidersProps) {
+// Registers the language feature providers. The providers apply to every
+// Python model, and requests are routed to the file associated with the model.
+export function useMonacoProviders({
+  editor,
+  lspSession,
+  inlayHints,
+  codeActions,
+}: UseMonacoProvidersProps) {
   const monaco = useMonaco();
 
   useEffect(() => {
-    if (!monaco || !model) {
+    if (!monaco || !editor) {
       return;
     }
 
@@ -200,6 +355,30 @@ export function useMonacoProviders({ model, lspSession }: UseMonacoProvidersProp
       monaco.languages.registerRenameProvider("python", {
         provideRenameEdits: handleRenameRequest(lspSession),
       }),
+      monaco.languages.registerDocumentSymbolProvider("python", {
+        provideDocumentSymbols: handleDocumentSymbolRequest(lspSession),
+      }),
+      monaco.languages.registerDefinitionProvider("python", {
+        provideDefinition: handleLocationRequest((...args) =>
+          lspSession.getDefinitionForPosition(...args),
+        ),
+      }),
+      monaco.languages.registerDeclarationProvider("python", {
+        provideDeclaration: handleLocationRequest((...args) =>
+          lspSession.getDeclarationForPosition(...args),
+        ),
+      }),
+      monaco.languages.registerTypeDefinitionProvider("python", {
+        provideTypeDefinition: handleLocationRequest((...args) =>
+          lspSession.getTypeDefinitionForPosition(...args),
+        ),
+      }),
+      monaco.languages.registerReferenceProvider("python", {
+        provideReferences: handleReferencesRequest(lspSession),
+      }),
+      monaco.languages.registerDocumentHighlightProvider("python", {
+        provideDocumentHighlights: handleDocumentHighlightRequest(lspSession),
+      }),
       monaco.languages.registerDocumentSemanticTokensProvider(
         "python",
         handleSemanticTokensRequest(lspSession),
@@ -207,5 +386,38 @@ export function useMonacoProviders({ model, lspSession }: UseMonacoProvidersProp
     );
 
     return () => disposables.forEach((d) => d.dispose());
-  }, [monaco, model, lspSession]);
+  }, [monaco, editor, lspSession]);
+
+  // Inlay hints can be turned off, so their provider is registered separately.
+  useEffect(() => {
+    if (!monaco || !editor || !inlayHints) {
+      return;
+    }
+
+    const disposable = monaco.languages.registerInlayHintsProvider("python", {
+      provideInlayHints: handleInlayHintsRequest(lspSession),
+    });
+
+    return () => disposable.dispose();
+  }, [monaco, editor, lspSession, inlayHints]);
+
+  // Code actions are registered only if the language server provides them
+  // so the editor doesn't offer quick fixes that do nothing.
+  useEffect(() => {
+    if (!monaco || !editor || !codeActions) {
+      return;
+    }
+
+    const disposable = monaco.languages.registerCodeActionProvider(
+      "python",
+      {
+        provideCodeActions: handleCodeActionRequest(lspSession),
+      },
+      {
+        providedCodeActionKinds: ["quickfix", "refactor", "source"],
+      },
+    );
+
+    return () => disposable.dispose();
+  }, [monaco, editor, lspSession, codeActions]);
 }
@@ -1,5 +1,26 @@
 export * from "./hooks/useLspSession";
 export * from "./hooks/useMonacoLsp";
 export * from "./hooks/useMonacoProviders";
+export * from "./utils/fileUris";
 export * from "./utils/typeConversions";
-export type { LspConfig } from "./services/LspSession";
+export {
+  getConfigSchema,
+  getLanguageServerVersions,
+  getLibraryPackages,
+} from "./services/LspSession";
+export type {
+  ConfigFile,
+  ConfigFileFormat,
+  ConfigSchema,
+  ConfigSchemaSetting,
+  ConfigValue,
+  DiagnosticRuleSeverity,
+  LanguageServerVersion,
+  LanguageServerVersions,
+  LibraryPackage,
+  LibraryPackages,
+  LspConfig,
+  PythonPlatform,
+  SessionCapabilities,
+  TypeCheckingMode,
+} from "./services/LspSession";
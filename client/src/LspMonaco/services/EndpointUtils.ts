@@ -16,7 +16,10 @@ export async function endpointRequest(
 
   const data = await response.json();
   if (!response.ok) {
-    throw data;
+    // If the server is busy, it indicates how long (in seconds) to wait
+    // before trying again.
+    const retryAfter = parseInt(response.headers.get("Retry-After") ?? "", 10);
+    throw isNaN(retryAfter) ? data : { ...data, retryAfter };
   }
 
   return data;
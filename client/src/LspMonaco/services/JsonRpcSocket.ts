@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) Eric Traut
+ * Minimal JSON-RPC 2.0 connection over a WebSocket, used to exchange
+ * LSP messages with a language server session.
+ */
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export class JsonRpcSocket {
+  private readonly _socket: WebSocket;
+  private readonly _pendingRequests = new Map<number, PendingRequest>();
+  private readonly _notificationHandlers = new Map<string, (params: unknown) => void>();
+  private _nextRequestId = 1;
+  private _isClosed = false;
+
+  onClose?: (code: number) => void;
+
+  private constructor(socket: WebSocket) {
+    this._socket = socket;
+
+    socket.addEventListener("message", (event) => {
+      this._handleMessage(event.data);
+    });
+
+    socket.addEventListener("close", (event) => {
+      this._isClosed = true;
+
+      this._pendingRequests.forEach((request) => {
+        request.reject(new Error("Connection closed"));
+      });
+      this._pendingRequests.clear();
+
+      this.onClose?.(event.code);
+    });
+  }
+
+  // Opens a WebSocket and resolves once the connection is established.
+  static connect(url: string): Promise<JsonRpcSocket> {
+    return new Promise<JsonRpcSocket>((resolve, reject) => {
+      const socket = new WebSocket(url);
+
+      const handleOpen = () => {
+        socket.removeEventListener("error", handleError);
+        resolve(new JsonRpcSocket(socket));
+      };
+
+      const handleError = () => {
+        socket.removeEventListener("open", handleOpen);
+        reject(new Error("Could not connect to service"));
+      };
+
+      socket.addEventListener("open", handleOpen, { once: true });
+      socket.addEventListener("error", handleError, { once: true });
+    });
+  }
+
+  get isClosed() {
+    return this._isClosed;
+  }
+
+  close() {
+    this._socket.close();
+  }
+
+  sendRequest<T>(method: string, params: unknown): Promise<T> {
+    if (this._isClosed) {
+      return Promise.reject(new Error("Connection closed"));
+    }
+
+    const id = this._nextRequestId++;
+
+    return new Promise<T>((resolve, reject) => {
+      this._pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this._send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  sendNotification(method: string, params: unknown) {
+    if (!this._isClosed) {
+      this._send({ jsonrpc: "2.0", method, params });
+    }
+  }
+
+  onNotification<T>(method: string, handler: (params: T) => void) {
+    this._notificationHandlers.set(method, handler as (params: unknown) => void);
+  }
+
+  private _send(message: JsonRpcMessage) {
+    this._socket.send(JSON.stringify(message));
+  }
+
+  private _handleMessage(data: string) {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message.method !== undefined) {
+      // Requests from the server aren't supported.
+      if (message.id === undefined) {
+        this._notificationHandlers.get(message.method)?.(message.params);
+      }
+      return;
+    }
+
+    if (message.id === undefined) {
+      return;
+    }
+
+    const request = this._pendingRequests.get(message.id);
+    if (!request) {
+      return;
+    }
+
+    this._pendingRequests.delete(message.id);
+    if (message.error) {
+      request.reject(new Error(message.error.message));
+    } else {
+      request.resolve(message.result);
+    }
+  }
+}
@@ -4,21 +4,44 @@
  */
 
 import type {
+  CodeAction,
   CompletionItem,
   CompletionList,
   Diagnostic,
+  DocumentHighlight,
+  DocumentSymbol,
+  InlayHint,
+  Location,
   Position,
   Range,
   SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokensLegend,
   SignatureHelp,
   WorkspaceEdit,
 } from "vscode-languageserver-types";
+import {
+  TextDocument,
+  type TextDocumentContentChangeEvent,
+} from "vscode-languageserver-textdocument";
 import { endpointRequest } from "./EndpointUtils";
+import { JsonRpcSocket } from "./JsonRpcSocket";
 
 export interface DiagnosticEvents {
   onWaitingForDiagnostics: (isWaiting: boolean) => void;
-  onDiagnostics: (diag: Diagnostic[]) => void;
+  onDiagnostics: (uri: string, diag: Diagnostic[]) => void;
   onError: (message: string) => void;
+  // Called each time a session is created with the optional features that
+  // its language server provides.
+  onSessionCapabilities?: (capabilities: SessionCapabilities) => void;
+}
+
+// Optional features that not every language server (or version) provides.
+export interface SessionCapabilities {
+  inlayHints: boolean;
+  // Code actions (quick fixes) that edit the code. Pyright offers only
+  // actions that its editor extension runs, so they aren't supported.
+  codeActions: boolean;
 }
 
 export interface HoverInfo {
@@ -34,33 +57,167 @@ export interface LspConfig {
   apiAddressPrefix: string;
   // Number of attempts to create a new session before giving up.
   maxErrorCount?: number;
+  // Transport used to communicate with the session. With "http" (the default),
+  // each request is a separate POST that includes the file contents. With
+  // "websocket", file changes are sent as LSP notifications over a persistent
+  // connection, and diagnostics are pushed as soon as they are published.
+  transport?: LspTransport;
+}
+
+export type LspTransport = "http" | "websocket";
+
+export type TypeCheckingMode = "strict" | "standard" | "basic" | "off";
+
+// Severity levels that can be assigned to a diagnostic rule.
+export type DiagnosticRuleSeverity = "none" | "information" | "warning" | "error";
+
+export type ConfigValue = boolean | DiagnosticRuleSeverity;
+
+export type PythonPlatform = "All" | "Linux" | "Windows" | "Darwin";
+
+// A configuration file edited by the user. The "json" format is the
+// contents of a pyrightconfig.json file, and the "toml" format is the
+// contents of a pyproject.toml file with a [tool.pyright] section.
+export type ConfigFileFormat = "json" | "toml";
+
+export interface ConfigFile {
+  format: ConfigFileFormat;
+  text: string;
 }
 
 export interface LspSettings {
-  typeCheckingMode?: "strict" | "standard" | "basic" | "off";
-  configOverrides: { [name: string]: boolean };
+  // ID of the language server version that runs the session (e.g.
+  // "pyright@1.1.393"). Defaults to the version bundled with the server.
+  pyrightVersion?: string;
+  // Defaults to "standard".
+  typeCheckingMode?: TypeCheckingMode;
+  // Version of Python (e.g. "3.12") and platform assumed when evaluating
+  // the code. If not specified, the server's defaults are used.
+  pythonVersion?: string;
+  pythonPlatform?: PythonPlatform;
+  // Names of the library packages (installed on the server) that the code
+  // can import.
+  packages?: string[];
+  configOverrides: { [name: string]: ConfigValue };
+  // If specified, the settings in this file take precedence over the
+  // ones above.
+  configFile?: ConfigFile;
+}
+
+export interface LanguageServerVersion {
+  id: string;
+  name: "pyright" | "basedpyright";
+  version: string;
+}
+
+export interface LanguageServerVersions {
+  defaultVersion: string;
+  versions: LanguageServerVersion[];
+}
+
+// Returns the language server versions that are installed on the server
+// and can be selected through the "pyrightVersion" setting.
+export async function getLanguageServerVersions(
+  apiAddressPrefix: string,
+): Promise<LanguageServerVersions> {
+  return endpointRequest("GET", apiAddressPrefix + "versions");
+}
+
+export interface ConfigSchemaSetting {
+  name: string;
+  valueType: "boolean" | "severity";
+
+  // Value of the setting in each type checking mode.
+  defaultValues: { [mode in TypeCheckingMode]: ConfigValue };
+}
+
+export interface ConfigSchema {
+  // ID of the language server version the schema describes.
+  languageServer: string;
+  settings: ConfigSchemaSetting[];
+}
+
+// Returns the configuration settings supported by a language server version
+// (the default version if none is specified). Fails if the server can't
+// determine them for the version.
+export async function getConfigSchema(
+  apiAddressPrefix: string,
+  pyrightVersion?: string,
+): Promise<ConfigSchema> {
+  const query = pyrightVersion ? `?pyrightVersion=${encodeURIComponent(pyrightVersion)}` : "";
+  return endpointRequest("GET", apiAddressPrefix + "configschema" + query);
+}
+
+export interface LibraryPackage {
+  name: string;
+  version?: string;
+}
+
+export interface LibraryPackages {
+  packages: LibraryPackage[];
+}
+
+// Returns the library packages that are installed on the server and can
+// be selected through the "packages" setting.
+export async function getLibraryPackages(apiAddressPrefix: string): Promise<LibraryPackages> {
+  return endpointRequest("GET", apiAddressPrefix + "packages");
+}
+
+interface FileState {
+  code: string;
+  version: number;
+
+  // Version most recently sent to the server. For the WebSocket transport,
+  // this is reset when a new connection is opened.
+  sentVersion?: number;
+
+  // Ranged changes made since the version that was sent to the server, or
+  // undefined if the full text needs to be sent.
+  unsentChanges?: TextDocumentContentChangeEvent[];
 }
 
+interface SocketState {
+  sessionId: string;
+  connection: Promise<JsonRpcSocket>;
+}
+
+// WebSocket close code the server sends when the session's language server
+// crashed or was killed because it exceeded its resource limits.
+const sessionCrashedCode = 4001;
+
 export class LspSession {
   private readonly _settings: LspSettings | undefined;
   private readonly _apiAddressPrefix: string;
   private readonly _maxErrorCount: number;
   private readonly _eventHandlers?: DiagnosticEvents;
+  private readonly _transport: LspTransport;
 
   private _sessionId: string | undefined;
-  private _code: string;
+  private _semanticTokensLegend: SemanticTokensLegend | undefined;
+  private _pendingSession: Promise<string> | undefined;
+  private _socket: SocketState | undefined;
+  private _files = new Map<string, FileState>();
+  private _filesAwaitingDiagnostics = new Set<string>();
+  private _recoveredFromCrash = false;
   private _version: number;
 
   constructor(config: LspConfig, eventHandlers?: DiagnosticEvents) {
-    this._code = "";
     this._version = 0;
     this._settings = config.settings;
     this._apiAddressPrefix = config.apiAddressPrefix;
     this._maxErrorCount = config.maxErrorCount || 4;
     this._eventHandlers = eventHandlers;
+    this._transport = config.transport ?? "http";
   }
 
   async shutdown() {
+    this._closeSocket();
+
+    // Wait for a session that's being created so it can be closed too.
+    if (this._pendingSession) {
+      await this._pendingSession.catch(() => undefined);
+    }
+
     const sessionId = this._sessionId;
     if (!sessionId) {
       return;
@@ -73,19 +230,104 @@ export class LspSession {
     await endpointRequest("DELETE", endpoint);
   }
 
-  async updateCode(code: string) {
-    this._code = code;
-    const version = this._version;
+  // Updates the contents of a file in the workspace (adding it if it's new)
+  // and refreshes the diagnostics for the workspace.
+  async updateFile(uri: string, code: string) {
+    this._setFileCode(uri, code);
+
+    const file = this._files.get(uri)!;
+    if (file.sentVersion === file.version) {
+      return;
+    }
+
+    if (this._transport === "websocket") {
+      this._sendFileChanges();
+    } else {
+      this._refreshDiagnostics(uri);
+    }
+  }
+
+  // Applies edits made to a file. The changes are sent to the server (when
+  // using the WebSocket transport) the next time the file is updated.
+  applyFileChanges(uri: string, changes: TextDocumentContentChangeEvent[]) {
+    const file = this._files.get(uri);
+    if (!file || changes.length === 0) {
+      return;
+    }
+
+    const document = TextDocument.create(uri, "python", file.version, file.code);
+    TextDocument.update(document, changes, file.version + 1);
+
+    file.code = document.getText();
+    file.version++;
+    file.unsentChanges?.push(...changes);
+  }
+
+  // Removes a file from the workspace.
+  async removeFile(uri: string) {
+    const file = this._files.get(uri);
+    if (!file) {
+      return;
+    }
+
+    this._files.delete(uri);
+    this._eventHandlers?.onDiagnostics(uri, []);
+    this._receivedDiagnostics(uri);
+
+    if (this._transport === "websocket") {
+      const socket = this._socket;
+      if (socket && file.sentVersion !== undefined) {
+        socket.connection
+          .then((connection) => {
+            connection.sendNotification("textDocument/didClose", { textDocument: { uri } });
+          })
+          .catch(() => {
+            // The file will be missing from the next session anyway.
+          });
+      }
+      return;
+    }
+
+    const sessionId = this._sessionId;
+    if (sessionId) {
+      const endpoint = this._apiAddressPrefix + `session/${sessionId}/closedocument`;
+      await endpointRequest("POST", endpoint, { uri }).catch(() => {
+        // The file will be missing from the next session anyway.
+      });
+    }
+
+    this._refreshDiagnostics();
+  }
+
+  // Requests diagnostics for every file in the workspace, starting with the
+  // file that changed. Other files are refreshed as well because their
+  // diagnostics can depend on the changed file (e.g. through imports).
+  private _refreshDiagnostics(changedUri?: string) {
+    const version = ++this._version;
+    const uris = Array.from(this._files.keys()).sort((a, b) =>
+      a === changedUri ? -1 : b === changedUri ? 1 : 0,
+    );
 
     this._eventHandlers?.onWaitingForDiagnostics(true);
 
-    this.getDiagnostics(code)
-      .then((diagnostics) => {
+    const refresh = async () => {
+      for (const uri of uris) {
+        const file = this._files.get(uri);
+        if (!file || this._version !== version) {
+          continue;
+        }
+
+        file.sentVersion = file.version;
+        const diagnostics = await this.getDiagnostics(uri, file.code);
+
         // Ensure that the diagnostics are associated with the current version of the code.
-        if (this._version === version) {
-          this._eventHandlers?.onDiagnostics(diagnostics);
+        if (this._files.get(uri)?.version === file.version) {
+          this._eventHandlers?.onDiagnostics(uri, diagnostics);
         }
-      })
+      }
+    };
+
+    refresh()
       .catch((error) => {
         this._eventHandlers?.onError(error.message);
       })
@@ -96,84 +338,451 @@ export class LspSession {
       });
   }
 
-  async getDiagnostics(code: string): Promise<Diagnostic[]> {
+  // Replaces the contents of a file. Returns false if the contents are unchanged.
+  private _setFileCode(uri: string, code: string): boolean {
+    const file = this._files.get(uri);
+    if (file?.code === code) {
+      return false;
+    }
+
+    this._files.set(uri, {
+      code,
+      version: (file?.version ?? 0) + 1,
+      sentVersion: file?.sentVersion,
+      unsentChanges: undefined,
+    });
+    return true;
+  }
+
+  // Sends any file changes over the WebSocket connection. The resulting
+  // diagnostics are pushed by the server.
+  private _sendFileChanges() {
+    this._doWithSession(async (sessionId) => {
+      const socket = this._getSocket(sessionId);
+      this._syncFiles(socket, await socket.connection);
+    }).catch((error) => {
+      this._eventHandlers?.onError(error.message);
+    });
+  }
+
+  // Sends the changes to files whose latest version hasn't yet been sent over
+  // the connection. Only the edited ranges are sent if they are known.
+  private _syncFiles(socket: SocketState, connection: JsonRpcSocket, uris?: string[]) {
+    if (this._socket !== socket) {
+      return;
+    }
+
+    for (const uri of uris ?? this._files.keys()) {
+      const file = this._files.get(uri);
+      if (!file || file.sentVersion === file.version) {
+        continue;
+      }
+
+      if (file.sentVersion === undefined) {
+        connection.sendNotification("textDocument/didOpen", {
+          textDocument: { uri, languageId: "python", version: file.version, text: file.code },
+        });
+      } else {
+        connection.sendNotification("textDocument/didChange", {
+          textDocument: { uri, version: file.version },
+          contentChanges: file.unsentChanges ?? [{ text: file.code }],
+        });
+      }
+
+      file.sentVersion = file.version;
+      file.unsentChanges = [];
+
+      this._filesAwaitingDiagnostics.add(uri);
+      this._eventHandlers?.onWaitingForDiagnostics(true);
+    }
+  }
+
+  private _receivedDiagnostics(uri: string) {
+    if (this._filesAwaitingDiagnostics.delete(uri) && this._filesAwaitingDiagnostics.size === 0) {
+      this._recoveredFromCrash = false;
+      this._eventHandlers?.onWaitingForDiagnostics(false);
+    }
+  }
+
+  // Returns the WebSocket connection for the session, opening it if necessary.
+  private _getSocket(sessionId: string): SocketState {
+    if (this._socket?.sessionId === sessionId) {
+      return this._socket;
+    }
+
+    this._closeSocket();
+
+    const socket: SocketState = {
+      sessionId,
+      connection: JsonRpcSocket.connect(this._getSocketUrl(sessionId)),
+    };
+    this._socket = socket;
+
+    // Files need to be reopened on the new connection.
+    this._files.forEach((file) => {
+      file.sentVersion = undefined;
+      file.unsentChanges = [];
+    });
+
+    socket.connection
+      .then((connection) => {
+        connection.onNotification<{ uri: string; diagnostics: Diagnostic[] }>(
+          "textDocument/publishDiagnostics",
+          (params) => {
+            if (this._socket === socket && this._files.has(params.uri)) {
+              this._eventHandlers?.onDiagnostics(params.uri, params.diagnostics);
+              this._receivedDiagnostics(params.uri);
+            }
+          },
+        );
+
+        // The server requests the full text of a file if it can't apply
+        // the changes that were sent.
+        connection.onNotification<{ uri: string }>("playground/resyncTextDocument", (params) => {
+          const file = this._files.get(params.uri);
+          if (this._socket === socket && file) {
+            file.sentVersion = undefined;
+            this._sendFileChanges();
+          }
+        });
+
+        connection.onClose = (code) => {
+          if (this._socket !== socket) {
+            return;
+          }
+
+          // The server closes the connection when it discards the session.
+          this._socket = undefined;
+          this._sessionId = undefined;
+
+          if (this._filesAwaitingDiagnostics.size === 0) {
+            return;
+          }
+
+          // If the language server crashed, the same code is likely to crash
+          // a new session too, so recover only once before reporting an error.
+          if (code === sessionCrashedCode) {
+            if (this._recoveredFromCrash) {
+              this._filesAwaitingDiagnostics.clear();
+              this._eventHandlers?.onWaitingForDiagnostics(false);
+              this._eventHandlers?.onError("The language server crashed while analyzing the code");
+              return;
+            }
+
+            this._recoveredFromCrash = true;
+          }
+
+          // Resend the files to a new session.
+          this._sendFileChanges();
+        };
+      })
+      .catch(() => {
+        if (this._socket === socket) {
+          this._socket = undefined;
+        }
+      });
+
+    return socket;
+  }
+
+  private _closeSocket() {
+    const socket = this._socket;
+    if (!socket) {
+      return;
+    }
+
+    this._socket = undefined;
+    socket.connection.then((connection) => connection.close()).catch(() => {});
+  }
+
+  private _getSocketUrl(sessionId: string): string {
+    const url = new URL(this._apiAddressPrefix + `session/${sessionId}/ws`, window.location.href);
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    return url.toString();
+  }
+
+  // Sends a request that concerns a file using the configured transport.
+  // The HTTP transport includes the file contents with each request. The
+  // WebSocket transport sends the contents only if they have changed.
+  private _sendFileRequest<T>(
+    route: string,
+    method: string,
+    uri: string,
+    code: string,
+    params: object,
+  ): Promise<T> {
+    if (this._transport === "websocket") {
+      this._setFileCode(uri, code);
+    }
+
+    return this._doWithSession<T>(async (sessionId) => {
+      if (this._transport === "websocket") {
+        const socket = this._getSocket(sessionId);
+        const connection = await socket.connection;
+        this._syncFiles(socket, connection, [uri]);
+        return await connection.sendRequest<T>(method, { textDocument: { uri }, ...params });
+      }
+
+      const endpoint = this._apiAddressPrefix + `session/${sessionId}/${route}`;
+      return await endpointRequest("POST", endpoint, { uri, code, ...params });
+    });
+  }
+
+  async getDiagnostics(uri: string, code: string): Promise<Diagnostic[]> {
     return this._doWithSession<Diagnostic[]>(async (sessionId) => {
       const endpoint = this._apiAddressPrefix + `session/${sessionId}/diagnostics`;
-      const data = await endpointRequest("POST", endpoint, { code });
+      const data = await endpointRequest("POST", endpoint, { uri, code });
       return data.diagnostics;
     });
   }
 
-  async getHoverForPosition(code: string, position: Position): Promise<HoverInfo> {
-    return this._doWithSession<HoverInfo>(async (sessionId) => {
-      const endpoint = this._apiAddressPrefix + `session/${sessionId}/hover`;
-      return await endpointRequest("POST", endpoint, { code, position });
+  async getHoverForPosition(uri: string, code: string, position: Position): Promise<HoverInfo> {
+    return this._sendFileRequest<HoverInfo>("hover", "textDocument/hover", uri, code, {
+      position,
     });
   }
 
   async getRenameEditsForPosition(
+    uri: string,
     code: string,
     position: Position,
-    newName: string
+    newName: string,
   ): Promise<WorkspaceEdit | undefined> {
-    return this._doWithSession<WorkspaceEdit>(async (sessionId) => {
-      const endpoint = this._apiAddressPrefix + `session/${sessionId}/rename`;
-      return await endpointRequest("POST", endpoint, { code, position, newName });
+    return this._sendFileRequest<WorkspaceEdit>("rename", "textDocument/rename", uri, code, {
+      position,
+      newName,
+    });
+  }
+
+  async getDefinitionForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<Location[]> {
+    return this._sendFileRequest<Location[]>("definition", "textDocument/definition", uri, code, {
+      position,
     });
   }
 
-  async getSignatureHelpForPosition(code: string, position: Position): Promise<SignatureHelp> {
-    return this._doWithSession<SignatureHelp>(async (sessionId) => {
-      const endpoint = this._apiAddressPrefix + `session/${sessionId}/signature`;
-      return await endpointRequest("POST", endpoint, { code, position });
+  async getDeclarationForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<Location[]> {
+    return this._sendFileRequest<Location[]>("declaration", "textDocument/declaration", uri, code, {
+      position,
     });
   }
 
-  async getCompletionForPosition(code: string, position: Position): Promise<CompletionList> {
-    return this._doWithSession<CompletionList>(async (sessionId) => {
-      const endpoint = this._apiAddressPrefix + `session/${sessionId}/completion`;
-      return await endpointRequest("POST", endpoint, { code, position });
+  async getTypeDefinitionForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<Location[]> {
+    return this._sendFileRequest<Location[]>(
+      "typedefinition",
+      "textDocument/typeDefinition",
+      uri,
+      code,
+      { position },
+    );
+  }
+
+  async getReferencesForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+    includeDeclaration: boolean,
+  ): Promise<Location[]> {
+    return this._sendFileRequest<Location[]>("references", "textDocument/references", uri, code, {
+      position,
+      context: { includeDeclaration },
     });
   }
 
+  async getDocumentHighlightsForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<DocumentHighlight[] | null> {
+    return this._sendFileRequest<DocumentHighlight[] | null>(
+      "highlight",
+      "textDocument/documentHighlight",
+      uri,
+      code,
+      { position },
+    );
+  }
+
+  async getSignatureHelpForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<SignatureHelp> {
+    return this._sendFileRequest<SignatureHelp>(
+      "signature",
+      "textDocument/signatureHelp",
+      uri,
+      code,
+      { position },
+    );
+  }
+
+  async getCompletionForPosition(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<CompletionList> {
+    return this._sendFileRequest<CompletionList>(
+      "completion",
+      "textDocument/completion",
+      uri,
+      code,
+      { position },
+    );
+  }
+
   async resolveCompletionItem(completionItem: CompletionItem): Promise<CompletionItem> {
     return this._doWithSession<CompletionItem>(async (sessionId) => {
+      if (this._transport === "websocket") {
+        const connection = await this._getSocket(sessionId).connection;
+        return await connection.sendRequest<CompletionItem>(
+          "completionItem/resolve",
+          completionItem,
+        );
+      }
+
       const endpoint = this._apiAddressPrefix + `session/${sessionId}/completionresolve`;
       return await endpointRequest("POST", endpoint, { completionItem });
     });
   }
 
-  async getSemanticTokens(code: string): Promise<SemanticTokens> {
-    return this._doWithSession<{ data: number[]; resultId?: string }>(async (sessionId) => {
-      const endpoint = this._apiAddressPrefix + `session/${sessionId}/semantictokens`;
-      return await endpointRequest("POST", endpoint, { code });
-    });
+  async getDocumentSymbols(uri: string, code: string): Promise<DocumentSymbol[]> {
+    return this._sendFileRequest<DocumentSymbol[]>(
+      "documentsymbols",
+      "textDocument/documentSymbol",
+      uri,
+      code,
+      {},
+    );
+  }
+
+  async getInlayHints(uri: string, code: string, range: Range): Promise<InlayHint[] | null> {
+    return this._sendFileRequest<InlayHint[] | null>(
+      "inlayhints",
+      "textDocument/inlayHint",
+      uri,
+      code,
+      { range },
+    );
+  }
+
+  // Returns the code actions (e.g. quick fixes) for a range within a file
+  // given the diagnostics that were reported for the range.
+  async getCodeActionsForRange(
+    uri: string,
+    code: string,
+    range: Range,
+    diagnostics: Diagnostic[],
+    only?: string[],
+  ): Promise<CodeAction[]> {
+    return this._sendFileRequest<CodeAction[]>(
+      "codeactions",
+      "textDocument/codeAction",
+      uri,
+      code,
+      { range, context: { diagnostics, only } },
+    );
+  }
+
+  // Returns the legend for interpreting semantic tokens, or undefined if the
+  // session's language server doesn't provide semantic tokens.
+  async getSemanticTokensLegend(): Promise<SemanticTokensLegend | undefined> {
+    return this._doWithSession(async () => this._semanticTokensLegend);
+  }
+
+  async getSemanticTokens(uri: string, code: string): Promise<SemanticTokens | null> {
+    return this._sendFileRequest<SemanticTokens | null>(
+      "semantictokens",
+      "textDocument/semanticTokens/full",
+      uri,
+      code,
+      {},
+    );
+  }
+
+  async getSemanticTokensDelta(
+    uri: string,
+    code: string,
+    previousResultId: string,
+  ): Promise<SemanticTokens | SemanticTokensDelta | null> {
+    return this._sendFileRequest<SemanticTokens | SemanticTokensDelta | null>(
+      "semantictokensdelta",
+      "textDocument/semanticTokens/full/delta",
+      uri,
+      code,
+      { previousResultId },
+    );
   }
 
   // Establishes a session if necessary and calls the callback to perform some
   // work. If the session cannot be established or the call fails, an attempt
-  // is made to retry the operation with exponential backoff.
+  // is made to retry the operation with exponential backoff, or after the delay
+  // requested by the server if it's busy. If the session's language server
+  // crashed, a new session is created immediately, and the files are sent to
+  // it as part of its creation.
   private async _doWithSession<T>(callback: (sessionId: string) => Promise<T>): Promise<T> {
     let errorCount = 0;
     let backoffDelay = 100;
+    let recoveredFromCrash = false;
+    let isServiceBusy = false;
 
     while (true) {
       if (errorCount > this._maxErrorCount) {
-        throw new Error("Could not connect to service");
+        throw new Error(
+          isServiceBusy
+            ? "The service is too busy to start a session"
+            : recoveredFromCrash
+              ? "The language server crashed while analyzing the code"
+              : "Could not connect to service",
+        );
       }
 
+      let sessionId: string | undefined;
+      let retryDelay = backoffDelay;
       try {
-        const sessionId = await this._createSession();
+        sessionId = await this._createSession();
         const result = await callback(sessionId);
 
         return result;
-      } catch {
-        // Throw away the current session.
-        this._sessionId = undefined;
+      } catch (err) {
+        // Throw away the current session unless another request has
+        // already replaced it.
+        if (this._sessionId === sessionId) {
+          this._sessionId = undefined;
+          this._closeSocket();
+        }
+
+        // Retrying won't help if the configuration file is malformed.
+        if (isInvalidConfigFileError(err)) {
+          throw new Error((err as { message: string }).message);
+        }
+
+        if (isSessionCrashedError(err) && !recoveredFromCrash) {
+          recoveredFromCrash = true;
+          continue;
+        }
+
+        const retryAfter = getRetryAfter(err);
+        isServiceBusy = retryAfter !== undefined;
+        if (retryAfter !== undefined) {
+          retryDelay = retryAfter * 1000;
+        }
+
         errorCount++;
       }
 
-      await this._sleep(backoffDelay);
+      await this._sleep(retryDelay);
 
       // Exponentially back off.
       backoffDelay *= 2;
@@ -190,13 +799,57 @@ export class LspSession {
       return Promise.resolve(this._sessionId);
     }
 
+    // If a session is already being created, wait for it rather than
+    // creating another one.
+    if (!this._pendingSession) {
+      this._pendingSession = this._requestSession().finally(() => {
+        this._pendingSession = undefined;
+      });
+    }
+
+    return this._pendingSession;
+  }
+
+  private async _requestSession(): Promise<string> {
+    const files: { [uri: string]: string } = {};
+    this._files.forEach((file, uri) => {
+      files[uri] = file.code;
+    });
+
     const endpoint = this._apiAddressPrefix + `session`;
     const data = await endpointRequest("POST", endpoint, {
+      pyrightVersion: this._settings?.pyrightVersion,
       typeCheckingMode: this._settings?.typeCheckingMode,
-      code: this._code,
+      pythonVersion: this._settings?.pythonVersion,
+      pythonPlatform: this._settings?.pythonPlatform,
+      packages: this._settings?.packages,
+      files,
       configOverrides: this._settings?.configOverrides,
+      configFile: this._settings?.configFile,
     });
     this._sessionId = data.sessionId;
+    this._semanticTokensLegend = data.semanticTokensLegend;
+    this._eventHandlers?.onSessionCapabilities?.({
+      inlayHints: !!data.supportsInlayHints,
+      codeActions: !!data.supportsCodeActions,
+    });
     return data.sessionId;
   }
 }
+
+// The server responds with this error if the session's language server
+// crashed or was killed because it exceeded its resource limits.
+function isSessionCrashedError(err: unknown): boolean {
+  return (err as { code?: unknown } | undefined)?.code === "sessionCrashed";
+}
+
+function isInvalidConfigFileError(err: unknown): boolean {
+  return (err as { code?: unknown } | undefined)?.code === "invalidConfigFile";
+}
+
+// Returns the number of seconds the server asked the client to wait before
+// retrying, if the error indicates that the server is busy.
+function getRetryAfter(err: unknown): number | undefined {
+  const retryAfter = (err as { retryAfter?: unknown } | undefined)?.retryAfter;
+  return typeof retryAfter === "number" ? retryAfter : undefined;
+}
@@ -0,0 +1,43 @@
+/*
+ * Utility functions for mapping workspace file names to document URIs.
+ */
+
+// File names are paths relative to the root of the workspace, such as
+// "main.py" or "pkg/__init__.py". Only Python source and stub files are
+// supported.
+const fileNameRegex = /^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*\.pyi?$/;
+
+export function isValidFileName(fileName: string): boolean {
+  return fileNameRegex.test(fileName);
+}
+
+// Stub files in this directory are used by the language server to resolve
+// imports of libraries (including stdlib modules).
+export const stubsDirName = "stubs";
+
+const moduleNameRegex = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+// Returns the name of the stub file for a module (e.g. "stubs/requests/__init__.pyi"
+// for "requests" or "stubs/requests/models.pyi" for "requests.models"), or
+// undefined if the module name is invalid.
+export function getStubFileName(moduleName: string): string | undefined {
+  if (!moduleNameRegex.test(moduleName)) {
+    return undefined;
+  }
+
+  const nameParts = moduleName.split(".");
+  if (nameParts.length === 1) {
+    nameParts.push("__init__");
+  }
+
+  return `${stubsDirName}/${nameParts.join("/")}.pyi`;
+}
+
+export function getFileUri(fileName: string): string {
+  return `file:///${fileName}`;
+}
+
+export function getFileNameFromUri(uri: string): string | undefined {
+  const prefix = "file:///";
+  return uri.startsWith(prefix) ? uri.substring(prefix.length) : undefined;
+}
@@ -1,12 +1,25 @@
 import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
 import {
+  CodeAction,
   CompletionItem,
   CompletionItemKind,
   Diagnostic,
   DiagnosticSeverity,
+  DocumentHighlight,
+  DocumentHighlightKind,
+  DocumentSymbol,
+  InlayHint,
   InsertReplaceEdit,
+  Location,
+  MarkupContent,
   Range,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SymbolKind,
+  TextDocumentEdit,
+  WorkspaceEdit,
 } from "vscode-languageserver-types";
+import type { TextDocumentContentChangeEvent } from "vscode-languageserver-textdocument";
 
 export interface ExtendedCompletionItem extends monaco.languages.CompletionItem {
   originalLspItem: CompletionItem;
@@ -25,11 +38,28 @@ export function convertDiagnostics(diagnostics: Diagnostic[]): monaco.editor.IMa
       ...convertRange(diag.range),
       severity: convertSeverity(diag.severity ?? DiagnosticSeverity.Error),
       message: diag.message,
+      code: diag.code?.toString(),
+      source: diag.source,
       tags: diag.tags,
     };
   });
 }
 
+// Converts markers back into diagnostics, e.g. to provide the context for
+// a code action request.
+export function convertMarkers(markers: monaco.editor.IMarkerData[]): Diagnostic[] {
+  return markers.map((marker) => {
+    return {
+      range: convertMonacoRange(marker),
+      severity: convertMarkerSeverity(marker.severity),
+      message: marker.message,
+      code: typeof marker.code === "object" ? marker.code.value : marker.code,
+      source: marker.source,
+      tags: marker.tags,
+    };
+  });
+}
+
 export function convertSeverity(severity: DiagnosticSeverity): monaco.MarkerSeverity {
   switch (severity) {
     case DiagnosticSeverity.Error:
@@ -45,6 +75,21 @@ export function convertSeverity(severity: DiagnosticSeverity): monaco.MarkerSeve
   }
 }
 
+export function convertMarkerSeverity(severity: monaco.MarkerSeverity): DiagnosticSeverity {
+  switch (severity) {
+    case monaco.MarkerSeverity.Error:
+      return DiagnosticSeverity.Error;
+    case monaco.MarkerSeverity.Warning:
+      return DiagnosticSeverity.Warning;
+    case monaco.MarkerSeverity.Info:
+      return DiagnosticSeverity.Information;
+    case monaco.MarkerSeverity.Hint:
+      return DiagnosticSeverity.Hint;
+    default:
+      return DiagnosticSeverity.Error;
+  }
+}
+
 export function convertRange(range: Range): monaco.IRange {
   return {
     startLineNumber: range.start.line + 1,
@@ -54,6 +99,193 @@ export function convertRange(range: Range): monaco.IRange {
   };
 }
 
+export function convertMonacoRange(range: monaco.IRange): Range {
+  return {
+    start: { line: range.startLineNumber - 1, character: range.startColumn - 1 },
+    end: { line: range.endLineNumber - 1, character: range.endColumn - 1 },
+  };
+}
+
+export function convertWorkspaceEdit(edit: WorkspaceEdit): monaco.languages.WorkspaceEdit {
+  const edits: monaco.languages.IWorkspaceTextEdit[] = [];
+
+  Object.keys(edit.changes ?? {}).forEach((uri) => {
+    edit.changes![uri].forEach((textEdit) => {
+      edits.push({
+        resource: monaco.Uri.parse(uri),
+        versionId: undefined,
+        textEdit: {
+          range: convertRange(textEdit.range),
+          text: textEdit.newText,
+        },
+      });
+    });
+  });
+
+  edit.documentChanges?.filter(TextDocumentEdit.is).forEach((docChange) => {
+    docChange.edits.forEach((textEdit) => {
+      edits.push({
+        resource: monaco.Uri.parse(docChange.textDocument.uri),
+        versionId: undefined,
+        textEdit: {
+          range: convertRange(textEdit.range),
+          text: textEdit.newText,
+        },
+      });
+    });
+  });
+
+  return { edits };
+}
+
+export function convertCodeAction(action: CodeAction): monaco.languages.CodeAction {
+  return {
+    title: action.title,
+    kind: action.kind,
+    diagnostics: action.diagnostics ? convertDiagnostics(action.diagnostics) : undefined,
+    isPreferred: action.isPreferred,
+    edit: action.edit ? convertWorkspaceEdit(action.edit) : undefined,
+    disabled: action.disabled?.reason,
+  };
+}
+
+export function convertLocations(locations: Location[]): monaco.languages.Location[] {
+  return locations.map((location) => {
+    return {
+      uri: monaco.Uri.parse(location.uri),
+      range: convertRange(location.range),
+    };
+  });
+}
+
+export function convertDocumentHighlights(
+  highlights: DocumentHighlight[],
+): monaco.languages.DocumentHighlight[] {
+  return highlights.map((highlight) => {
+    return {
+      range: convertRange(highlight.range),
+      kind: convertDocumentHighlightKind(highlight.kind),
+    };
+  });
+}
+
+export function convertDocumentHighlightKind(
+  kind: DocumentHighlightKind | undefined,
+): monaco.languages.DocumentHighlightKind {
+  switch (kind) {
+    case DocumentHighlightKind.Read:
+      return monaco.languages.DocumentHighlightKind.Read;
+    case DocumentHighlightKind.Write:
+      return monaco.languages.DocumentHighlightKind.Write;
+    default:
+      return monaco.languages.DocumentHighlightKind.Text;
+  }
+}
+
+export function convertDocumentSymbols(
+  symbols: DocumentSymbol[],
+): monaco.languages.DocumentSymbol[] {
+  return symbols.map((symbol) => {
+    return {
+      name: symbol.name,
+      detail: symbol.detail ?? "",
+      kind: convertSymbolKind(symbol.kind),
+      tags: symbol.tags ?? [],
+      range: convertRange(symbol.range),
+      selectionRange: convertRange(symbol.selectionRange),
+      children: symbol.children ? convertDocumentSymbols(symbol.children) : undefined,
+    };
+  });
+}
+
+// Monaco numbers symbol kinds from zero, and LSP numbers them from one.
+export function convertSymbolKind(kind: SymbolKind): monaco.languages.SymbolKind {
+  return kind - 1;
+}
+
+export function convertInlayHints(hints: InlayHint[]): monaco.languages.InlayHint[] {
+  return hints.map((hint) => {
+    return {
+      label:
+        typeof hint.label === "string"
+          ? hint.label
+          : hint.label.map((part) => {
+              return {
+                label: part.value,
+                tooltip: convertTooltip(part.tooltip),
+                location: part.location ? convertLocations([part.location])[0] : undefined,
+              };
+            }),
+      position: {
+        lineNumber: hint.position.line + 1,
+        column: hint.position.character + 1,
+      },
+      // Monaco and LSP use the same values for the kinds of hints.
+      kind: hint.kind,
+      tooltip: convertTooltip(hint.tooltip),
+      paddingLeft: hint.paddingLeft,
+      paddingRight: hint.paddingRight,
+      textEdits: hint.textEdits?.map((edit) => {
+        return {
+          range: convertRange(edit.range),
+          text: edit.newText,
+        };
+      }),
+    };
+  });
+}
+
+function convertTooltip(
+  tooltip: string | MarkupContent | undefined,
+): string | monaco.IMarkdownString | undefined {
+  return MarkupContent.is(tooltip) ? { value: tooltip.value } : tooltip;
+}
+
+export function convertSemanticTokens(
+  tokens: SemanticTokens | SemanticTokensDelta,
+): monaco.languages.SemanticTokens | monaco.languages.SemanticTokensEdits {
+  if ("edits" in tokens) {
+    return {
+      resultId: tokens.resultId,
+      edits: tokens.edits.map((edit) => {
+        return {
+          start: edit.start,
+          deleteCount: edit.deleteCount,
+          data: edit.data ? new Uint32Array(edit.data) : undefined,
+        };
+      }),
+    };
+  }
+
+  return {
+    resultId: tokens.resultId,
+    data: new Uint32Array(tokens.data),
+  };
+}
+
+// Converts the changes from a Monaco model content change event into LSP
+// content changes. Monaco orders the changes so they can be applied in sequence.
+export function convertContentChanges(
+  changes: monaco.editor.IModelContentChange[],
+): TextDocumentContentChangeEvent[] {
+  return changes.map((change) => {
+    return {
+      range: {
+        start: {
+          line: change.range.startLineNumber - 1,
+          character: change.range.startColumn - 1,
+        },
+        end: {
+          line: change.range.endLineNumber - 1,
+          character: change.range.endColumn - 1,
+        },
+      },
+      rangeLength: change.rangeLength,
+      text: change.text,
+    };
+  });
+}
+
 export function convertCompletionItem(
   item: CompletionItem,
   model: monaco.editor.ITextModel,
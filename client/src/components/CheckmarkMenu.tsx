@@ -17,6 +17,8 @@ export interface CheckmarkMenuProps {
 
 export interface CheckmarkMenuItem {
   label: string;
+  // Additional text displayed after the label (e.g. the item's value).
+  detail?: string;
   checked: boolean;
   title?: string;
   disabled?: boolean;
@@ -92,6 +94,7 @@ export function CheckmarkMenu(props: CheckmarkMenuProps) {
             key={index}
             icon={item.checked ? "check" : undefined}
             label={item.label}
+            detail={item.detail}
             labelFilterText={searchFilter}
             onSelect={() => props.onSelect(item, index)}
             title={item.title}
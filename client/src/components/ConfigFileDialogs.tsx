@@ -0,0 +1,187 @@
+/*
+ * Copyright (c) Eric Traut
+ * Dialogs that import settings from a pyrightconfig.json file and export
+ * them as a pyrightconfig.json or pyproject.toml file.
+ */
+
+import {
+  Box,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import type { ConfigFileFormat, LspSettings } from "@/LspMonaco/services/LspSession";
+import PushButton from "./PushButton";
+import {
+  ImportedSettings,
+  configFileNames,
+  createConfigFile,
+  importConfigFile,
+} from "./PyrightConfigFile";
+import type { PyrightConfigSetting } from "./PyrightConfigSettings";
+
+export interface ImportSettingsDialogProps {
+  configSettings: PyrightConfigSetting[];
+  onImport: (settings: LspSettings) => void;
+  onClose: () => void;
+}
+
+export function ImportSettingsDialog(props: ImportSettingsDialogProps) {
+  const [text, setText] = useState("");
+
+  let imported: ImportedSettings | undefined;
+  let errorMessage: string | undefined;
+  if (text.trim()) {
+    try {
+      imported = importConfigFile(text, props.configSettings);
+    } catch (err) {
+      errorMessage = (err as Error).message;
+    }
+  }
+
+  return (
+    <Dialog open onClose={props.onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={styles.titleText}>Import Settings</DialogTitle>
+      <DialogContent>
+        <Typography sx={styles.messageText}>
+          {`Paste the contents of a ${configFileNames.json} file.`}
+        </Typography>
+        <TextField
+          value={text}
+          onChange={(event) => {
+            setText(event.target.value);
+          }}
+          multiline
+          minRows={12}
+          maxRows={20}
+          fullWidth
+          autoFocus
+          spellCheck={false}
+          InputProps={{ sx: styles.codeText }}
+        />
+        {errorMessage ? (
+          <Typography sx={styles.errorText}>{errorMessage}</Typography>
+        ) : imported && imported.ignoredSettings.length > 0 ? (
+          <Typography sx={styles.warningText}>
+            {`These settings are not supported and will be ignored: ${imported.ignoredSettings.join(", ")}`}
+          </Typography>
+        ) : undefined}
+      </DialogContent>
+      <DialogActions sx={styles.actions}>
+        <PushButton label={"Cancel"} onPress={props.onClose} />
+        <PushButton
+          label={"Import"}
+          disabled={!imported}
+          onPress={() => {
+            if (imported) {
+              props.onImport(imported.settings);
+            }
+          }}
+        />
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export interface ExportSettingsDialogProps {
+  settings: LspSettings;
+  onClose: () => void;
+}
+
+export function ExportSettingsDialog(props: ExportSettingsDialogProps) {
+  const [format, setFormat] = useState<ConfigFileFormat>("json");
+  const [isCopied, setIsCopied] = useState(false);
+
+  const text = createConfigFile(props.settings, format).text;
+
+  return (
+    <Dialog open onClose={props.onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={styles.titleText}>Export Settings</DialogTitle>
+      <DialogContent>
+        <Box sx={styles.formatContainer}>
+          <Typography sx={styles.messageText}>Format</Typography>
+          <FormControl size="small">
+            <Select
+              value={format}
+              onChange={(event) => {
+                setFormat(event.target.value as ConfigFileFormat);
+                setIsCopied(false);
+              }}
+            >
+              <MenuItem value="json">{configFileNames.json}</MenuItem>
+              <MenuItem value="toml">{configFileNames.toml}</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+        <TextField
+          value={text}
+          multiline
+          minRows={12}
+          maxRows={20}
+          fullWidth
+          spellCheck={false}
+          InputProps={{ readOnly: true, sx: styles.codeText }}
+        />
+      </DialogContent>
+      <DialogActions sx={styles.actions}>
+        <PushButton label={"Close"} onPress={props.onClose} />
+        <PushButton
+          label={isCopied ? "Copied" : "Copy"}
+          title={"Copy to clipboard"}
+          onPress={() => {
+            navigator.clipboard
+              .writeText(text)
+              .then(() => setIsCopied(true))
+              .catch(() => {
+                // The text can still be copied by selecting it.
+              });
+          }}
+        />
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+const styles = {
+  titleText: {
+    fontSize: 16,
+    color: "#333",
+  },
+  messageText: {
+    fontSize: 13,
+    color: "#333",
+    mb: 1,
+  },
+  formatContainer: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 2,
+    mb: 1,
+  },
+  codeText: {
+    fontFamily: 'Monaco, Menlo, "Courier New", monospace',
+    fontSize: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#c00",
+    mt: 1,
+  },
+  warningText: {
+    fontSize: 13,
+    color: "#a60",
+    mt: 1,
+  },
+  actions: {
+    px: 3,
+    pb: 2,
+  },
+};
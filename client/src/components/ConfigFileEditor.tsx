@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) Eric Traut
+ * Editor for the configuration file (pyrightconfig.json or pyproject.toml)
+ * that's used in place of the individual settings.
+ */
+
+import { Box } from "@mui/material";
+import { Editor, useMonaco } from "@monaco-editor/react";
+import { useEffect } from "react";
+import type * as monaco from "monaco-editor/esm/vs/editor/editor.api";
+import useDebounce from "@/LspMonaco/hooks/useDebounce";
+import type { ConfigFile, ConfigFileFormat } from "@/LspMonaco/services/LspSession";
+import { configFileNames, getConfigFileSchema } from "./PyrightConfigFile";
+import type { PyrightConfigSetting } from "./PyrightConfigSettings";
+
+export interface ConfigFileEditorProps {
+  configFile: ConfigFile;
+
+  // Settings described by the schema used to validate pyrightconfig.json.
+  configSettings: PyrightConfigSetting[];
+
+  onChange: (configFile: ConfigFile) => void;
+}
+
+// Time (ms) to wait after the last edit before applying the changes, which
+// starts a new language server session.
+const changeDelay = 1000;
+
+const configFileSchemaUri = "inmemory://schemas/pyrightconfig.schema.json";
+
+const editorOptions: monaco.editor.IStandaloneEditorConstructionOptions = {
+  minimap: { enabled: false },
+  fixedOverflowWidgets: true,
+  scrollBeyondLastLine: false,
+  fontFamily: 'Monaco, Menlo, "Courier New", monospace',
+  fontSize: 12,
+  lineNumbersMinChars: 3,
+  folding: false,
+  overviewRulerLanes: 0,
+  renderLineHighlight: "none",
+  wordWrap: "on",
+};
+
+export function ConfigFileEditor(props: ConfigFileEditorProps) {
+  const format = props.configFile.format;
+
+  const handleChange = useDebounce((text: string | undefined) => {
+    props.onChange({ format, text: text ?? "" });
+  }, changeDelay);
+
+  const monacoInstance = useMonaco();
+
+  useEffect(() => {
+    monacoInstance?.languages.json.jsonDefaults.setDiagnosticsOptions({
+      validate: true,
+      allowComments: true,
+      trailingCommas: "ignore",
+      schemas: [
+        {
+          uri: configFileSchemaUri,
+          fileMatch: [getModelPath("json")],
+          schema: getConfigFileSchema(props.configSettings),
+        },
+      ],
+    });
+  }, [monacoInstance, props.configSettings]);
+
+  return (
+    <Box sx={styles.container}>
+      <Editor
+        options={editorOptions}
+        // Monaco has no TOML support, but INI highlighting is close.
+        language={format === "toml" ? "ini" : "json"}
+        path={getModelPath(format)}
+        value={props.configFile.text}
+        theme="light"
+        onChange={handleChange}
+      />
+    </Box>
+  );
+}
+
+function getModelPath(format: ConfigFileFormat) {
+  return `inmemory://config/${configFileNames[format]}`;
+}
+
+const styles = {
+  container: {
+    height: 320,
+    mx: 2,
+    my: 1,
+    border: "1px solid #ccc",
+  },
+};
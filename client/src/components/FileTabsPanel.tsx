@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) Eric Traut
+ * Tab bar that lists the files in the playground workspace.
+ */
+
+import { Box, ButtonBase, Typography } from "@mui/material";
+import { useHover } from "@/services/HoverHook";
+import IconButton from "./IconButton";
+
+export interface FileTabsPanelProps {
+  fileNames: string[];
+  activeFileName: string;
+
+  // Files that cannot be removed.
+  fixedFileNames: string[];
+
+  onSelectFile: (fileName: string) => void;
+  onAddFile: () => void;
+  onAddStubFile: () => void;
+  onRemoveFile: (fileName: string) => void;
+}
+
+export function FileTabsPanel(props: FileTabsPanelProps) {
+  return (
+    <Box sx={styles.container}>
+      {props.fileNames.map((fileName) => (
+        <FileTab
+          key={fileName}
+          fileName={fileName}
+          isActive={fileName === props.activeFileName}
+          isRemovable={!props.fixedFileNames.includes(fileName)}
+          onSelect={() => props.onSelectFile(fileName)}
+          onRemove={() => props.onRemoveFile(fileName)}
+        />
+      ))}
+      <IconButton
+        icon="add"
+        iconSize={16}
+        color="#669"
+        hoverColor="#933"
+        title="Add a file"
+        onPress={props.onAddFile}
+      />
+      <IconButton
+        icon="library-add"
+        iconSize={16}
+        color="#669"
+        hoverColor="#933"
+        title="Add a stub file for a library module"
+        onPress={props.onAddStubFile}
+      />
+    </Box>
+  );
+}
+
+interface FileTabProps {
+  fileName: string;
+  isActive: boolean;
+  isRemovable: boolean;
+  onSelect: () => void;
+  onRemove: () => void;
+}
+
+function FileTab(props: FileTabProps) {
+  const [hoverRef, isHovered] = useHover();
+
+  return (
+    <Box
+      ref={hoverRef}
+      sx={[styles.tab, props.isActive && styles.activeTab, isHovered && styles.hoveredTab]}
+    >
+      <ButtonBase onClick={props.onSelect}>
+        <Typography sx={styles.tabText} noWrap>
+          {props.fileName}
+        </Typography>
+      </ButtonBase>
+      {props.isRemovable && (
+        <IconButton
+          icon="close"
+          iconSize={12}
+          color="#666"
+          hoverColor="#333"
+          title={`Remove ${props.fileName}`}
+          onPress={props.onRemove}
+        />
+      )}
+    </Box>
+  );
+}
+
+const styles = {
+  container: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "center",
+    height: 30,
+    borderBottom: "1px solid #ccc",
+    overflowX: "auto",
+  },
+  tab: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "stretch",
+    px: 1,
+    borderRight: "1px solid #eee",
+  },
+  activeTab: {
+    bgcolor: "#f8f8ff",
+    borderBottom: "2px solid #933",
+  },
+  hoveredTab: {
+    bgcolor: "#eee",
+  },
+  tabText: {
+    fontSize: 13,
+    color: "#333",
+    userSelect: "none",
+  },
+};
@@ -6,8 +6,46 @@
 import pyrightIcon from "@/assets/pyright.png";
 import { Box, Typography } from "@mui/material";
 import { Link } from "@mui/material";
+import { useEffect, useState } from "react";
+import IconButton from "./IconButton";
+import PushButton from "./PushButton";
+
+// Time (in ms) that the result of sharing a link is displayed.
+const shareStatusTime = 2000;
+
+export interface HeaderPanelProps {
+  // Copies a link that encodes the current code and settings. Resolves to
+  // true if the link was copied to the clipboard.
+  onShare: () => Promise<boolean>;
+
+  // Saves the current code and settings on the server and copies a short
+  // link to them. Resolves to true if the link was copied to the clipboard.
+  onSaveSnippet: () => Promise<boolean>;
+}
+
+export function HeaderPanel(props: HeaderPanelProps) {
+  const [shareStatus, setShareStatus] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!shareStatus) {
+      return;
+    }
+
+    const timer = setTimeout(() => setShareStatus(undefined), shareStatusTime);
+    return () => clearTimeout(timer);
+  }, [shareStatus]);
+
+  const handleSaveSnippet = () => {
+    setIsSaving(true);
+
+    props
+      .onSaveSnippet()
+      .then((isCopied) => setShareStatus(isCopied ? "Link copied to clipboard" : undefined))
+      .catch((err) => setShareStatus(err?.message ?? "Unable to save the code"))
+      .finally(() => setIsSaving(false));
+  };
 
-export function HeaderPanel() {
   const image = <Box component="img" src={pyrightIcon} sx={styles.pyrightIcon} />;
 
   return (
@@ -23,6 +61,27 @@ export function HeaderPanel() {
       <Typography sx={styles.titleText} variant="h6">
         Pyright Monaco Demo
       </Typography>
+      <Box sx={styles.spacer} />
+      {shareStatus && <Typography sx={styles.statusText}>{shareStatus}</Typography>}
+      <PushButton
+        label="Save & copy link"
+        title="Save this code and its settings on the server and copy a short link to them"
+        disabled={isSaving}
+        backgroundStyle={styles.saveButton}
+        onPress={handleSaveSnippet}
+      />
+      <IconButton
+        icon="share"
+        iconSize={18}
+        color="#fff"
+        hoverColor="#fcc"
+        title="Copy a link that contains this code and its settings"
+        onPress={() => {
+          props.onShare().then((isCopied) => {
+            setShareStatus(isCopied ? "Link copied to clipboard" : undefined);
+          });
+        }}
+      />
     </Box>
   );
 }
@@ -49,4 +108,16 @@ const styles = {
     fontWeight: "bold",
     fontVariant: "small-caps",
   },
+  spacer: {
+    flex: 1,
+  },
+  saveButton: {
+    py: "2px",
+    mr: 0.5,
+  },
+  statusText: {
+    color: "#fff",
+    fontSize: 13,
+    mr: 1,
+  },
 };
@@ -66,6 +66,7 @@ export const Menu = forwardRef(function Menu(props: MenuProps, ref: ForwardedRef
 
 export interface MenuItemProps {
   label: string;
+  detail?: string;
   labelFilterText?: string;
   title?: string;
   icon?: IconName;
@@ -125,6 +126,11 @@ export function MenuItem(props: MenuItemProps) {
         {props.icon && <MuiIcon name={props.icon} size={14} color={menuIconColor} />}
       </Box>
       {labelItem}
+      {props.detail && (
+        <Typography sx={styles.detailText} noWrap>
+          {props.detail}
+        </Typography>
+      )}
     </MuiMenuItem>
   );
 }
@@ -165,6 +171,12 @@ const styles = {
     p: 0.5,
     color: panelTextColor,
   },
+  detailText: {
+    fontSize: 12,
+    ml: "auto",
+    pl: 1,
+    color: "#999",
+  },
   labelFiltered: {
     bgcolor: "#ccc",
     color: "#000",
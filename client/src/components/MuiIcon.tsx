@@ -4,20 +4,36 @@
  */
 
 import { SvgIcon } from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
 import CancelIcon from "@mui/icons-material/Cancel";
 import CheckIcon from "@mui/icons-material/Check";
 import CloseIcon from "@mui/icons-material/Close";
 import ArrowDropDownCircleIcon from "@mui/icons-material/ArrowDropDownCircle";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
 import InfoIcon from "@mui/icons-material/Info";
+import LibraryAddIcon from "@mui/icons-material/LibraryAdd";
+import ShareIcon from "@mui/icons-material/Share";
 import WarningIcon from "@mui/icons-material/Warning";
 
 // Map of icon names to their MUI components
 const iconMap = {
+  add: AddIcon,
   "close-circle": CancelIcon,
   check: CheckIcon,
   close: CloseIcon,
+  copy: ContentCopyIcon,
+  delete: DeleteIcon,
   "down-circle": ArrowDropDownCircleIcon,
+  download: FileDownloadIcon,
+  edit: EditIcon,
   "info-circle": InfoIcon,
+  "library-add": LibraryAddIcon,
+  share: ShareIcon,
+  upload: FileUploadIcon,
   warning: WarningIcon,
 } as const;
 
@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) Eric Traut
+ * Panel that displays the classes, functions and variables declared
+ * in the current file.
+ */
+
+import { Box, ButtonBase, Typography } from "@mui/material";
+import { DocumentSymbol, Range, SymbolKind } from "vscode-languageserver-types";
+import { useHover } from "@/services/HoverHook";
+
+export interface OutlinePanelProps {
+  symbols: DocumentSymbol[];
+  onSelectRange: (range: Range) => void;
+}
+
+const outlinePanelWidth = 240;
+
+export function OutlinePanel(props: OutlinePanelProps) {
+  return (
+    <Box sx={styles.container}>
+      <Typography sx={styles.headerTitleText}>Outline</Typography>
+      <Box sx={styles.scrollContainer}>
+        {props.symbols.length > 0 ? (
+          props.symbols.map((symbol, index) => (
+            <OutlineItem
+              key={index}
+              symbol={symbol}
+              depth={0}
+              onSelectRange={props.onSelectRange}
+            />
+          ))
+        ) : (
+          <Typography sx={styles.emptyText}>No symbols</Typography>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+interface OutlineItemProps {
+  symbol: DocumentSymbol;
+  depth: number;
+  onSelectRange: (range: Range) => void;
+}
+
+function OutlineItem(props: OutlineItemProps) {
+  const [hoverRef, isHovered] = useHover();
+
+  return (
+    <>
+      <ButtonBase
+        ref={hoverRef}
+        sx={[
+          styles.symbolContainer,
+          { pl: 1 + props.depth * 1.5 },
+          isHovered && styles.symbolContainerHover,
+        ]}
+        onClick={() => {
+          props.onSelectRange(props.symbol.selectionRange);
+        }}
+        title={props.symbol.detail}
+      >
+        <Typography sx={styles.symbolText}>
+          {props.symbol.name}
+          <Typography component="span" sx={styles.symbolKindText}>
+            {`  ${getSymbolKindLabel(props.symbol.kind)}`}
+          </Typography>
+        </Typography>
+      </ButtonBase>
+      {props.symbol.children?.map((child, index) => (
+        <OutlineItem
+          key={index}
+          symbol={child}
+          depth={props.depth + 1}
+          onSelectRange={props.onSelectRange}
+        />
+      ))}
+    </>
+  );
+}
+
+function getSymbolKindLabel(kind: SymbolKind): string {
+  switch (kind) {
+    case SymbolKind.Class:
+      return "class";
+    case SymbolKind.Function:
+    case SymbolKind.Method:
+      return "function";
+    case SymbolKind.Constant:
+      return "constant";
+    case SymbolKind.Property:
+      return "property";
+    case SymbolKind.Module:
+      return "module";
+    case SymbolKind.TypeParameter:
+      return "type parameter";
+    default:
+      return "variable";
+  }
+}
+
+const styles = {
+  container: {
+    width: outlinePanelWidth,
+    display: "flex",
+    flexDirection: "column",
+    alignSelf: "stretch",
+    borderLeft: "1px solid #ccc",
+  },
+  headerTitleText: {
+    p: 1,
+    color: "#333",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  scrollContainer: {
+    flex: 1,
+    flexBasis: 0,
+    overflow: "auto",
+  },
+  symbolContainer: {
+    py: 0.5,
+    pr: 1,
+    display: "flex",
+    flexDirection: "row",
+    width: "100%",
+    justifyContent: "flex-start",
+    textAlign: "left",
+  },
+  symbolContainerHover: {
+    bgcolor: "#eee",
+  },
+  symbolText: {
+    fontSize: 13,
+    lineHeight: "16px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+  symbolKindText: {
+    color: "#aaa",
+    display: "inline",
+  },
+  emptyText: {
+    m: 1,
+    fontSize: 13,
+    color: "#aaa",
+  },
+};
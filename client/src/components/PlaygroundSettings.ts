@@ -5,7 +5,32 @@
 
 import type { LspSettings } from "@/LspMonaco/services/LspSession";
 
+// Address of the pyright web service.
+export const apiAddressPrefix = "http://localhost:8080/lsp/";
+
+// Name of the file that holds the playground's primary code.
+export const mainFileName = "main.py";
+
+// Settings that affect how the editor presents information rather than how
+// the code is analyzed. Changing them doesn't require a new session.
+export interface EditorSettings {
+  // Display inferred types and parameter names inline.
+  inlayHints: boolean;
+}
+
+export const defaultEditorSettings: EditorSettings = {
+  inlayHints: true,
+};
+
 export interface PlaygroundState {
+  // Contents of the main file.
   code: string;
+
+  // Contents of any additional files (e.g. "models.py" or "pkg/__init__.py")
+  // that the main file can import, indexed by file name.
+  extraFiles?: { [fileName: string]: string };
+
   settings: LspSettings;
+
+  editorSettings?: EditorSettings;
 }
@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) Eric Traut
+ * Utility functions for pyright configuration files (pyrightconfig.json or
+ * pyproject.toml). The settings can be imported from or exported to a file,
+ * or a file can be edited in the settings panel in place of the settings.
+ */
+
+import { ParseError, parse as parseJsonc, printParseErrorCode } from "jsonc-parser";
+import type {
+  ConfigFile,
+  ConfigFileFormat,
+  ConfigValue,
+  DiagnosticRuleSeverity,
+  LspSettings,
+} from "@/LspMonaco/services/LspSession";
+import {
+  PyrightConfigSetting,
+  diagnosticRuleSeverities,
+  getConfigSettingDefault,
+  normalizeConfigValue,
+  pythonPlatforms,
+  pythonVersions,
+  typeCheckingModes,
+} from "./PyrightConfigSettings";
+
+export const configFileNames: { [format in ConfigFileFormat]: string } = {
+  json: "pyrightconfig.json",
+  toml: "pyproject.toml",
+};
+
+// Returns a configuration file that contains the settings.
+export function createConfigFile(settings: LspSettings, format: ConfigFileFormat): ConfigFile {
+  const config: { [name: string]: string | boolean } = {
+    typeCheckingMode: settings.typeCheckingMode ?? "standard",
+  };
+
+  if (settings.pythonVersion) {
+    config.pythonVersion = settings.pythonVersion;
+  }
+
+  if (settings.pythonPlatform) {
+    config.pythonPlatform = settings.pythonPlatform;
+  }
+
+  Object.keys(settings.configOverrides).forEach((name) => {
+    config[name] = settings.configOverrides[name];
+  });
+
+  if (format === "json") {
+    return { format, text: JSON.stringify(config, undefined, 4) + "\n" };
+  }
+
+  const lines = Object.keys(config).map((name) => `${name} = ${JSON.stringify(config[name])}`);
+  return { format, text: ["[tool.pyright]", ...lines, ""].join("\n") };
+}
+
+export interface ImportedSettings {
+  settings: LspSettings;
+
+  // Names of the settings in the file that were ignored because the
+  // playground doesn't support them or their values are invalid.
+  ignoredSettings: string[];
+}
+
+// Translates the contents of a pyrightconfig.json file into settings. Like
+// pyright, this allows comments and trailing commas. Throws an error if the
+// file is malformed.
+export function importConfigFile(
+  text: string,
+  configSettings: PyrightConfigSetting[],
+): ImportedSettings {
+  const errors: ParseError[] = [];
+  const config = parseJsonc(text, errors, { allowTrailingComma: true });
+
+  if (errors.length > 0) {
+    const line = text.substring(0, errors[0].offset).split("\n").length;
+    throw new Error(`${printParseErrorCode(errors[0].error)} on line ${line}`);
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error("Expected an object");
+  }
+
+  const settings: LspSettings = { configOverrides: {} };
+  const ignoredSettings: string[] = [];
+
+  // The type checking mode determines the default values of the other
+  // settings, so it's handled first.
+  if ("typeCheckingMode" in config) {
+    if (typeCheckingModes.includes(config.typeCheckingMode)) {
+      settings.typeCheckingMode = config.typeCheckingMode;
+    } else {
+      ignoredSettings.push("typeCheckingMode");
+    }
+  }
+
+  Object.keys(config).forEach((name) => {
+    const value = config[name];
+
+    if (name === "typeCheckingMode") {
+      return;
+    } else if (name === "pythonVersion" && pythonVersions.includes(value)) {
+      settings.pythonVersion = value;
+    } else if (name === "pythonPlatform" && pythonPlatforms.includes(value)) {
+      settings.pythonPlatform = value;
+    } else {
+      const setting = configSettings.find((s) => s.name === name);
+      if (!setting || !isValidConfigValue(setting, value)) {
+        ignoredSettings.push(name);
+      } else if (
+        normalizeConfigValue(setting, value) !==
+        getConfigSettingDefault(setting, settings.typeCheckingMode)
+      ) {
+        settings.configOverrides[name] = normalizeConfigValue(setting, value);
+      }
+    }
+  });
+
+  return { settings, ignoredSettings };
+}
+
+function isValidConfigValue(setting: PyrightConfigSetting, value: unknown): value is ConfigValue {
+  if (typeof value === "boolean") {
+    return true;
+  }
+
+  return (
+    setting.valueType === "severity" &&
+    diagnosticRuleSeverities.includes(value as DiagnosticRuleSeverity)
+  );
+}
+
+// Returns a JSON schema that describes the settings in a pyrightconfig.json
+// file. It's used to validate the file and offer completions as it's edited.
+// Settings that aren't described are allowed because pyright supports more
+// settings than the playground knows about.
+export function getConfigFileSchema(configSettings: PyrightConfigSetting[]): object {
+  const properties: { [name: string]: object } = {
+    typeCheckingMode: {
+      description: "Set of diagnostic rules to enable",
+      enum: typeCheckingModes,
+    },
+    pythonVersion: {
+      description: 'Version of Python (e.g. "3.12") assumed when evaluating the code',
+      type: "string",
+      pattern: "^3\\.\\d+$",
+    },
+    pythonPlatform: {
+      description: "Platform assumed when evaluating the code",
+      enum: pythonPlatforms,
+    },
+  };
+
+  configSettings.forEach((setting) => {
+    properties[setting.name] =
+      setting.valueType === "boolean"
+        ? { description: setting.description, type: "boolean" }
+        : { description: setting.description, enum: [...diagnosticRuleSeverities, true, false] };
+  });
+
+  return { type: "object", properties };
+}
@@ -5,12 +5,24 @@
 
 import { Box, Typography } from "@mui/material";
 import { SettingsPanel } from "./SettingsPanel";
-import type { LspSettings } from "@/LspMonaco/services/LspSession";
+import type {
+  LanguageServerVersions,
+  LibraryPackages,
+  LspSettings,
+} from "@/LspMonaco/services/LspSession";
+import type { EditorSettings } from "./PlaygroundSettings";
+import type { PyrightConfigSetting } from "./PyrightConfigSettings";
 
 export interface RightPanelProps {
   settings: LspSettings;
+  editorSettings: EditorSettings;
+  languageServerVersions: LanguageServerVersions | undefined;
+  libraryPackages: LibraryPackages | undefined;
+  configSettings: PyrightConfigSetting[];
+  supportsInlayHints: boolean | undefined;
 
   onUpdateSettings: (settings: LspSettings) => void;
+  onUpdateEditorSettings: (editorSettings: EditorSettings) => void;
 }
 
 const rightPanelWidth = 320;
@@ -20,7 +32,16 @@ export function RightPanel(props: RightPanelProps) {
     <Box sx={styles.container}>
       <Typography sx={styles.headerTitleText}>Playground Settings</Typography>
       <Box sx={styles.contentContainer}>
-        <SettingsPanel settings={props.settings} onUpdateSettings={props.onUpdateSettings} />
+        <SettingsPanel
+          settings={props.settings}
+          editorSettings={props.editorSettings}
+          languageServerVersions={props.languageServerVersions}
+          libraryPackages={props.libraryPackages}
+          configSettings={props.configSettings}
+          supportsInlayHints={props.supportsInlayHints}
+          onUpdateSettings={props.onUpdateSettings}
+          onUpdateEditorSettings={props.onUpdateEditorSettings}
+        />
       </Box>
     </Box>
   );
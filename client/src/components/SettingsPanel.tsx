@@ -4,111 +4,371 @@
  */
 
 import { Box, FormControl, MenuItem, Select, Typography } from "@mui/material";
-import { useRef } from "react";
+import { ReactNode, useRef, useState } from "react";
 import { CheckmarkMenu, CheckmarkMenuItem } from "./CheckmarkMenu";
+import { ExportSettingsDialog, ImportSettingsDialog } from "./ConfigFileDialogs";
+import { ConfigFileEditor } from "./ConfigFileEditor";
 import IconButton from "./IconButton";
 import { Menu, MenuRef } from "./Menu";
+import { EditorSettings, defaultEditorSettings } from "./PlaygroundSettings";
 import PushButton from "./PushButton";
+import { configFileNames, createConfigFile } from "./PyrightConfigFile";
 import {
   PyrightConfigSetting,
-  configSettings,
-  configSettingsAlphabetized,
+  diagnosticRuleSeverities,
+  getConfigSettingDefault,
+  isConfigValueEnabled,
+  normalizeConfigValue,
+  pythonPlatforms,
+  pythonVersions,
 } from "./PyrightConfigSettings";
-import type { LspSettings } from "@/LspMonaco/services/LspSession";
+import { SettingsCheckbox } from "./SettingsCheckBox";
+import type {
+  ConfigFileFormat,
+  ConfigValue,
+  DiagnosticRuleSeverity,
+  LanguageServerVersions,
+  LibraryPackages,
+  LspSettings,
+  PythonPlatform,
+  TypeCheckingMode,
+} from "@/LspMonaco/services/LspSession";
+
+// The server assumes these if the settings don't specify them.
+const defaultPythonVersion = "3.13";
+const defaultPythonPlatform: PythonPlatform = "All";
 
 interface ConfigOptionWithValue {
-  name: string;
-  value: boolean;
+  setting: PyrightConfigSetting;
+  value: ConfigValue;
 }
 
 export interface SettingsPanelProps {
   settings: LspSettings;
+  editorSettings: EditorSettings;
+  languageServerVersions: LanguageServerVersions | undefined;
+  libraryPackages: LibraryPackages | undefined;
+
+  // Settings supported by the selected language server, sorted by name.
+  configSettings: PyrightConfigSetting[];
+
+  // Whether the session's language server provides inlay hints, or
+  // undefined if it isn't known yet.
+  supportsInlayHints: boolean | undefined;
+
   onUpdateSettings: (settings: LspSettings) => void;
+  onUpdateEditorSettings: (editorSettings: EditorSettings) => void;
 }
 
 export function SettingsPanel(props: SettingsPanelProps) {
   const configOptionsMenuRef = useRef<MenuRef>(null);
-  const configOverrides = getNonDefaultConfigOptions(props.settings);
+  const configOverrides = getNonDefaultConfigOptions(props.settings, props.configSettings);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+
+  const handleConfigFileFormatChange = (format: ConfigFileFormat | "none") => {
+    const configFile = props.settings.configFile;
+    if (configFile) {
+      if (!window.confirm(`Discard the contents of ${configFileNames[configFile.format]}?`)) {
+        return;
+      }
+
+      props.onUpdateSettings({
+        ...props.settings,
+        configFile:
+          format === "none" ? undefined : createConfigFile({ configOverrides: {} }, format),
+      });
+    } else if (format !== "none") {
+      // Move the individual settings into the file so it's the only place
+      // they're specified.
+      props.onUpdateSettings({
+        ...props.settings,
+        typeCheckingMode: undefined,
+        pythonVersion: undefined,
+        pythonPlatform: undefined,
+        configOverrides: {},
+        configFile: createConfigFile(props.settings, format),
+      });
+    }
+  };
 
   return (
     <Box sx={styles.container}>
-      <SettingsHeader headerText={"Configuration Options"} />
-      <Box sx={styles.typeCheckingContainer}>
-        <Typography sx={styles.typeCheckingLabel}>Type Checking Mode</Typography>
-        <FormControl size="small" sx={styles.typeCheckingSelect}>
+      <SettingsHeader headerText={"Configuration Options"}>
+        {props.settings.configFile ? undefined : (
+          <>
+            <IconButton
+              icon="upload"
+              iconSize={16}
+              color="#669"
+              hoverColor="#933"
+              title={`Import settings from ${configFileNames.json}`}
+              onPress={() => setIsImportDialogOpen(true)}
+            />
+            <IconButton
+              icon="download"
+              iconSize={16}
+              color="#669"
+              hoverColor="#933"
+              title={"Export settings as a configuration file"}
+              onPress={() => setIsExportDialogOpen(true)}
+            />
+          </>
+        )}
+      </SettingsHeader>
+      {props.languageServerVersions ? (
+        <Box sx={styles.selectContainer}>
+          <Typography sx={styles.selectLabel}>Language Server</Typography>
+          <FormControl size="small" sx={styles.select}>
+            <Select
+              value={props.settings.pyrightVersion ?? props.languageServerVersions.defaultVersion}
+              onChange={(event) => {
+                const pyrightVersion = event.target.value;
+                props.onUpdateSettings({
+                  ...props.settings,
+                  pyrightVersion:
+                    pyrightVersion === props.languageServerVersions?.defaultVersion
+                      ? undefined
+                      : pyrightVersion,
+                });
+              }}
+            >
+              {props.languageServerVersions.versions.map((version) => (
+                <MenuItem key={version.id} value={version.id}>
+                  {`${version.name} ${version.version}`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      ) : undefined}
+      {props.libraryPackages && props.libraryPackages.packages.length > 0 ? (
+        <Box sx={styles.selectContainer}>
+          <Typography sx={styles.selectLabel}>Library Packages</Typography>
+          <FormControl size="small" sx={styles.select}>
+            <Select
+              multiple
+              displayEmpty
+              value={props.settings.packages ?? []}
+              renderValue={(selected) => (selected.length === 0 ? "None" : selected.join(", "))}
+              onChange={(event) => {
+                const value = event.target.value;
+                const packages = typeof value === "string" ? value.split(",") : value;
+                props.onUpdateSettings({
+                  ...props.settings,
+                  packages: packages.length > 0 ? packages : undefined,
+                });
+              }}
+            >
+              {props.libraryPackages.packages.map((libraryPackage) => (
+                <MenuItem key={libraryPackage.name} value={libraryPackage.name}>
+                  {libraryPackage.version
+                    ? `${libraryPackage.name} ${libraryPackage.version}`
+                    : libraryPackage.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      ) : undefined}
+      <Box sx={styles.selectContainer}>
+        <Typography sx={styles.selectLabel}>Configuration File</Typography>
+        <FormControl size="small" sx={styles.select}>
           <Select
-            value={props.settings.typeCheckingMode || "standard"}
+            value={props.settings.configFile?.format ?? "none"}
             onChange={(event) => {
-              props.onUpdateSettings({
-                ...props.settings,
-                typeCheckingMode: event.target.value as "strict" | "standard" | "basic" | "off",
-              });
+              handleConfigFileFormatChange(event.target.value as ConfigFileFormat | "none");
             }}
           >
-            <MenuItem value="strict">Strict</MenuItem>
-            <MenuItem value="standard">Standard</MenuItem>
-            <MenuItem value="basic">Basic</MenuItem>
-            <MenuItem value="off">Off</MenuItem>
+            <MenuItem value="none">None</MenuItem>
+            <MenuItem value="json">{configFileNames.json}</MenuItem>
+            <MenuItem value="toml">{configFileNames.toml}</MenuItem>
           </Select>
         </FormControl>
       </Box>
-
-      <Box sx={styles.selectionContainer}>
-        <Typography sx={styles.selectedOptionText}>
-          {configOverrides.length === 0 ? "Default" : "Custom"}
-        </Typography>
-        <MenuButton
-          onPress={() => {
-            configOptionsMenuRef.current?.open();
+      {props.settings.configFile ? (
+        <ConfigFileEditor
+          configSettings={props.configSettings}
+          configFile={props.settings.configFile}
+          onChange={(configFile) => {
+            props.onUpdateSettings({ ...props.settings, configFile });
           }}
         />
-        <Menu name={"configOptions"} ref={configOptionsMenuRef}>
-          <CheckmarkMenu
-            items={configSettingsAlphabetized.map((item) => {
-              return getConfigOptionMenuItem(props.settings, item);
-            })}
-            onSelect={(item) => {
-              props.onUpdateSettings(toggleConfigOption(props.settings, item.label));
-            }}
-            includeSearchBox={true}
-            fixedSize={{ width: 300, height: 400 }}
-            onDismiss={() => {
-              configOptionsMenuRef.current?.close();
-            }}
-          />
-        </Menu>
-      </Box>
-      <Box sx={styles.overridesContainer}>
-        {configOverrides.map((config) => (
-          <ConfigOverride
-            key={config.name}
-            config={config}
-            onRemove={() => {
-              const configOverrides = { ...props.settings.configOverrides };
-              delete configOverrides[config.name];
-
-              props.onUpdateSettings({
-                ...props.settings,
-                configOverrides,
-              });
-            }}
-          />
-        ))}
-      </Box>
+      ) : (
+        <>
+          <Box sx={styles.selectContainer}>
+            <Typography sx={styles.selectLabel}>Type Checking Mode</Typography>
+            <FormControl size="small" sx={styles.select}>
+              <Select
+                value={props.settings.typeCheckingMode || "standard"}
+                onChange={(event) => {
+                  props.onUpdateSettings({
+                    ...props.settings,
+                    typeCheckingMode: event.target.value as TypeCheckingMode,
+                  });
+                }}
+              >
+                <MenuItem value="strict">Strict</MenuItem>
+                <MenuItem value="standard">Standard</MenuItem>
+                <MenuItem value="basic">Basic</MenuItem>
+                <MenuItem value="off">Off</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+          <Box sx={styles.selectContainer}>
+            <Typography sx={styles.selectLabel}>Python Version</Typography>
+            <FormControl size="small" sx={styles.select}>
+              <Select
+                value={props.settings.pythonVersion ?? defaultPythonVersion}
+                onChange={(event) => {
+                  props.onUpdateSettings({
+                    ...props.settings,
+                    pythonVersion: event.target.value,
+                  });
+                }}
+              >
+                {pythonVersions.map((version) => (
+                  <MenuItem key={version} value={version}>
+                    {version}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Box sx={styles.selectContainer}>
+            <Typography sx={styles.selectLabel}>Python Platform</Typography>
+            <FormControl size="small" sx={styles.select}>
+              <Select
+                value={props.settings.pythonPlatform ?? defaultPythonPlatform}
+                onChange={(event) => {
+                  props.onUpdateSettings({
+                    ...props.settings,
+                    pythonPlatform: event.target.value as PythonPlatform,
+                  });
+                }}
+              >
+                {pythonPlatforms.map((platform) => (
+                  <MenuItem key={platform} value={platform}>
+                    {platform}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box sx={styles.selectionContainer}>
+            <Typography sx={styles.selectedOptionText}>
+              {configOverrides.length === 0 ? "Default" : "Custom"}
+            </Typography>
+            <MenuButton
+              onPress={() => {
+                configOptionsMenuRef.current?.open();
+              }}
+            />
+            <Menu name={"configOptions"} ref={configOptionsMenuRef}>
+              <CheckmarkMenu
+                items={props.configSettings.map((item) => {
+                  return getConfigOptionMenuItem(props.settings, item);
+                })}
+                onSelect={(item) => {
+                  props.onUpdateSettings(
+                    toggleConfigOption(props.settings, props.configSettings, item.label),
+                  );
+                }}
+                includeSearchBox={true}
+                fixedSize={{ width: 300, height: 400 }}
+                onDismiss={() => {
+                  configOptionsMenuRef.current?.close();
+                }}
+              />
+            </Menu>
+          </Box>
+          <Box sx={styles.overridesContainer}>
+            {configOverrides.map((config) => (
+              <ConfigOverride
+                key={config.setting.name}
+                config={config}
+                onChange={(value) => {
+                  props.onUpdateSettings(
+                    setConfigOption(
+                      props.settings,
+                      props.configSettings,
+                      config.setting.name,
+                      value,
+                    ),
+                  );
+                }}
+                onRemove={() => {
+                  const configOverrides = { ...props.settings.configOverrides };
+                  delete configOverrides[config.setting.name];
+
+                  props.onUpdateSettings({
+                    ...props.settings,
+                    configOverrides,
+                  });
+                }}
+              />
+            ))}
+          </Box>
+        </>
+      )}
+
+      <SettingsDivider />
+      <SettingsHeader headerText={"Editor Options"} />
+      <SettingsCheckbox
+        label={"Inlay hints"}
+        title={"Display inferred types and parameter names within the code"}
+        value={props.editorSettings.inlayHints && props.supportsInlayHints !== false}
+        disabled={props.supportsInlayHints === false}
+        onChange={(value) => {
+          props.onUpdateEditorSettings({ ...props.editorSettings, inlayHints: value });
+        }}
+      />
+      {props.supportsInlayHints === false ? (
+        <Typography sx={styles.noteText}>
+          The selected language server doesn&apos;t provide inlay hints.
+        </Typography>
+      ) : undefined}
 
       <SettingsDivider />
       <Box sx={styles.resetButtonContainer}>
         <PushButton
           label={"Restore Defaults"}
           title={"Reset all settings to their default values"}
-          disabled={areSettingsDefault(props.settings)}
+          disabled={
+            areSettingsDefault(props.settings) && areEditorSettingsDefault(props.editorSettings)
+          }
           onPress={() => {
             props.onUpdateSettings({
               configOverrides: {},
             });
+            props.onUpdateEditorSettings(defaultEditorSettings);
           }}
         />
       </Box>
+
+      {isImportDialogOpen ? (
+        <ImportSettingsDialog
+          configSettings={props.configSettings}
+          onImport={(settings) => {
+            setIsImportDialogOpen(false);
+
+            // The language server and packages aren't specified in the file.
+            props.onUpdateSettings({
+              ...settings,
+              pyrightVersion: props.settings.pyrightVersion,
+              packages: props.settings.packages,
+            });
+          }}
+          onClose={() => setIsImportDialogOpen(false)}
+        />
+      ) : undefined}
+      {isExportDialogOpen ? (
+        <ExportSettingsDialog
+          settings={props.settings}
+          onClose={() => setIsExportDialogOpen(false)}
+        />
+      ) : undefined}
     </Box>
   );
 }
@@ -125,10 +385,11 @@ function MenuButton(props: { onPress: () => void }) {
   );
 }
 
-function SettingsHeader(props: { headerText: string }) {
+function SettingsHeader(props: { headerText: string; children?: ReactNode }) {
   return (
     <Box sx={styles.headerTextBox}>
       <Typography sx={styles.headerText}>{props.headerText}</Typography>
+      {props.children}
     </Box>
   );
 }
@@ -139,17 +400,41 @@ function SettingsDivider() {
 
 interface ConfigOverrideProps {
   config: ConfigOptionWithValue;
+  onChange: (value: ConfigValue) => void;
   onRemove: () => void;
 }
 
 function ConfigOverride(props: ConfigOverrideProps) {
-  const text = `${props.config.name}=${props.config.value.toString()}`;
+  const name = props.config.setting.name;
+  const value = props.config.value;
 
   return (
     <Box sx={styles.configOverrideContainer}>
-      <Typography sx={styles.configOverrideText} noWrap>
-        {text}
-      </Typography>
+      {typeof value === "boolean" ? (
+        <Typography sx={styles.configOverrideText} noWrap>
+          {`${name}=${value.toString()}`}
+        </Typography>
+      ) : (
+        <>
+          <Typography sx={styles.configOverrideText} noWrap title={name}>
+            {name}
+          </Typography>
+          <Select
+            variant="standard"
+            value={value}
+            onChange={(event) => {
+              props.onChange(event.target.value as DiagnosticRuleSeverity);
+            }}
+            sx={styles.severitySelect}
+          >
+            {diagnosticRuleSeverities.map((severity) => (
+              <MenuItem key={severity} value={severity} sx={styles.severityMenuItem}>
+                {severity}
+              </MenuItem>
+            ))}
+          </Select>
+        </>
+      )}
       <Box sx={{ mt: -0.5 }}>
         <IconButton
           icon="close"
@@ -166,64 +451,128 @@ function ConfigOverride(props: ConfigOverrideProps) {
 function areSettingsDefault(settings: LspSettings): boolean {
   return (
     Object.keys(settings.configOverrides).length === 0 &&
-    (!settings.typeCheckingMode || settings.typeCheckingMode === "standard")
+    !settings.pyrightVersion &&
+    !settings.packages?.length &&
+    !settings.configFile &&
+    (!settings.typeCheckingMode || settings.typeCheckingMode === "standard") &&
+    (settings.pythonVersion ?? defaultPythonVersion) === defaultPythonVersion &&
+    (settings.pythonPlatform ?? defaultPythonPlatform) === defaultPythonPlatform
   );
 }
 
-function getNonDefaultConfigOptions(settings: LspSettings): ConfigOptionWithValue[] {
+function areEditorSettingsDefault(editorSettings: EditorSettings): boolean {
+  return editorSettings.inlayHints === defaultEditorSettings.inlayHints;
+}
+
+function getNonDefaultConfigOptions(
+  settings: LspSettings,
+  configSettings: PyrightConfigSetting[],
+): ConfigOptionWithValue[] {
   const overrides: ConfigOptionWithValue[] = [];
 
-  configSettingsAlphabetized.forEach((configInfo) => {
+  configSettings.forEach((configInfo) => {
     // If strict mode is in effect, don't consider overrides if the
     // config option is always on in strict mode.
-    if (settings.typeCheckingMode === "strict" && configInfo.isEnabledInStrict) {
+    if (isLockedInStrictMode(settings, configInfo)) {
       return;
     }
 
-    const defaultValue = configInfo.isEnabledInStandard;
-    const overrideValue = settings.configOverrides[configInfo.name] ?? defaultValue;
+    const defaultValue = getConfigSettingDefault(configInfo, settings.typeCheckingMode);
+    const overrideValue = getConfigOptionValue(settings, configInfo);
 
     if (defaultValue !== overrideValue) {
-      overrides.push({ name: configInfo.name, value: overrideValue });
+      overrides.push({ setting: configInfo, value: overrideValue });
     }
   });
 
   return overrides;
 }
 
+function getConfigOptionValue(settings: LspSettings, config: PyrightConfigSetting): ConfigValue {
+  const overrideValue = settings.configOverrides[config.name];
+  if (overrideValue === undefined) {
+    return getConfigSettingDefault(config, settings.typeCheckingMode);
+  }
+
+  return normalizeConfigValue(config, overrideValue);
+}
+
+function isLockedInStrictMode(settings: LspSettings, config: PyrightConfigSetting): boolean {
+  return (
+    settings.typeCheckingMode === "strict" && isConfigValueEnabled(config.defaultValues.strict)
+  );
+}
+
 function getConfigOptionMenuItem(
   settings: LspSettings,
   config: PyrightConfigSetting,
 ): CheckmarkMenuItem {
-  const isEnabled = settings.configOverrides[config.name] ?? config.isEnabledInStandard;
+  const value = getConfigOptionValue(settings, config);
+  const isEnabled = isConfigValueEnabled(value);
 
   return {
     label: config.name,
-    checked: isEnabled || (config.isEnabledInStrict && settings.typeCheckingMode === "strict"),
-    disabled: config.isEnabledInStrict && settings.typeCheckingMode === "strict",
+    detail: typeof value === "string" && isEnabled ? value : undefined,
+    checked: isEnabled,
+    disabled: isLockedInStrictMode(settings, config),
     title: config.description,
   };
 }
 
-function toggleConfigOption(settings: LspSettings, optionName: string): LspSettings {
+// Turns a setting on or off. Diagnostic rules are turned on using the
+// severity they have in the current mode (or in the strictest mode that
+// enables them).
+function toggleConfigOption(
+  settings: LspSettings,
+  configSettings: PyrightConfigSetting[],
+  optionName: string,
+): LspSettings {
+  const configInfo = configSettings.find((s) => s.name === optionName);
+  if (!configInfo) {
+    return settings;
+  }
+
+  const isEnabled = isConfigValueEnabled(getConfigOptionValue(settings, configInfo));
+  let newValue: ConfigValue;
+
+  if (configInfo.valueType === "boolean") {
+    newValue = !isEnabled;
+  } else if (isEnabled) {
+    newValue = "none";
+  } else {
+    const candidates = [
+      getConfigSettingDefault(configInfo, settings.typeCheckingMode),
+      configInfo.defaultValues.standard,
+      configInfo.defaultValues.strict,
+    ];
+    newValue = candidates.find((value) => isConfigValueEnabled(value)) ?? "error";
+  }
+
+  return setConfigOption(settings, configSettings, optionName, newValue);
+}
+
+function setConfigOption(
+  settings: LspSettings,
+  configSettings: PyrightConfigSetting[],
+  optionName: string,
+  value: ConfigValue,
+) {
   const configOverrides = { ...settings.configOverrides };
   const configInfo = configSettings.find((s) => s.name === optionName);
-  const isEnabledByDefault = configInfo?.isEnabledInStandard;
-  const isEnabled = configOverrides[optionName] ?? isEnabledByDefault;
 
-  if (isEnabledByDefault === !isEnabled) {
+  if (configInfo && getConfigSettingDefault(configInfo, settings.typeCheckingMode) === value) {
     // If the new value matches the default value, delete it
     // to restore the default.
     delete configOverrides[optionName];
   } else {
-    configOverrides[optionName] = !isEnabled;
+    configOverrides[optionName] = value;
   }
 
   return { ...settings, configOverrides };
 }
 
 const styles = {
-  typeCheckingContainer: {
+  selectContainer: {
     display: "flex",
     flexDirection: "column",
     // alignItems: "center",
@@ -231,12 +580,12 @@ const styles = {
     px: 2,
     py: 1,
   },
-  typeCheckingLabel: {
+  selectLabel: {
     fontSize: 13,
     color: "#333",
     flex: 1,
   },
-  typeCheckingSelect: {
+  select: {
     minWidth: 120,
   },
   container: {
@@ -253,9 +602,13 @@ const styles = {
     my: 1,
   },
   headerTextBox: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "center",
     mb: 0.5,
   },
   headerText: {
+    flex: 1,
     fontSize: 14,
     color: "#666",
     fontVariant: "small-caps",
@@ -279,6 +632,12 @@ const styles = {
     color: "#333",
     flex: 1,
   },
+  noteText: {
+    fontSize: 12,
+    color: "#666",
+    px: 2,
+    pb: 0.5,
+  },
   overridesContainer: {
     display: "flex",
     flexDirection: "column",
@@ -298,4 +657,16 @@ const styles = {
     fontSize: 12,
     color: "#333",
   },
+  severitySelect: {
+    ml: 1,
+    mr: 0.5,
+    flexShrink: 0,
+    fontSize: 12,
+    "& .MuiSelect-select": {
+      py: 0,
+    },
+  },
+  severityMenuItem: {
+    fontSize: 12,
+  },
 };
@@ -0,0 +1,210 @@
+/*
+ * Copyright (c) Eric Traut
+ * Panel that lists the snippets stored in the browser and lets the user
+ * switch between them.
+ */
+
+import { Box, ButtonBase, Typography } from "@mui/material";
+import { ChangeEvent, useRef } from "react";
+import { useHover } from "@/services/HoverHook";
+import type { LocalSnippet } from "@/services/SnippetStorage";
+import IconButton from "./IconButton";
+
+export interface SnippetsPanelProps {
+  snippets: LocalSnippet[];
+  activeSnippetId: string;
+
+  onOpenSnippet: (id: string) => void;
+  onCreateSnippet: () => void;
+  onRenameSnippet: (id: string) => void;
+  onDuplicateSnippet: (id: string) => void;
+  onDeleteSnippet: (id: string) => void;
+  onImportSnippets: (file: File) => void;
+  onExportSnippets: () => void;
+}
+
+const snippetsPanelWidth = 200;
+
+export function SnippetsPanel(props: SnippetsPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sortedSnippets = [...props.snippets].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleFileSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    // Allow the same file to be selected again.
+    event.target.value = "";
+
+    if (file) {
+      props.onImportSnippets(file);
+    }
+  };
+
+  return (
+    <Box sx={styles.container}>
+      <Box sx={styles.header}>
+        <Typography sx={styles.headerTitleText}>Snippets</Typography>
+        <IconButton
+          icon="upload"
+          iconSize={16}
+          color="#669"
+          hoverColor="#933"
+          title="Import snippets from a file"
+          onPress={() => fileInputRef.current?.click()}
+        />
+        <IconButton
+          icon="download"
+          iconSize={16}
+          color="#669"
+          hoverColor="#933"
+          title="Export all snippets to a file"
+          onPress={props.onExportSnippets}
+        />
+        <IconButton
+          icon="add"
+          iconSize={16}
+          color="#669"
+          hoverColor="#933"
+          title="New snippet"
+          onPress={props.onCreateSnippet}
+        />
+        <Box
+          component="input"
+          type="file"
+          accept=".json,application/json"
+          ref={fileInputRef}
+          sx={styles.fileInput}
+          onChange={handleFileSelected}
+        />
+      </Box>
+      <Box sx={styles.scrollContainer}>
+        {sortedSnippets.map((snippet) => (
+          <SnippetItem
+            key={snippet.id}
+            snippet={snippet}
+            isActive={snippet.id === props.activeSnippetId}
+            onOpen={() => props.onOpenSnippet(snippet.id)}
+            onRename={() => props.onRenameSnippet(snippet.id)}
+            onDuplicate={() => props.onDuplicateSnippet(snippet.id)}
+            onDelete={() => props.onDeleteSnippet(snippet.id)}
+          />
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+interface SnippetItemProps {
+  snippet: LocalSnippet;
+  isActive: boolean;
+  onOpen: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+function SnippetItem(props: SnippetItemProps) {
+  const [hoverRef, isHovered] = useHover();
+
+  return (
+    <Box
+      ref={hoverRef}
+      sx={[
+        styles.snippetContainer,
+        props.isActive && styles.snippetContainerActive,
+        isHovered && styles.snippetContainerHover,
+      ]}
+    >
+      <ButtonBase sx={styles.snippetButton} onClick={props.onOpen}>
+        <Typography sx={styles.snippetText}>{props.snippet.name}</Typography>
+      </ButtonBase>
+      {isHovered && (
+        <>
+          <IconButton
+            icon="edit"
+            iconSize={14}
+            color="#666"
+            hoverColor="#333"
+            title="Rename"
+            onPress={props.onRename}
+          />
+          <IconButton
+            icon="copy"
+            iconSize={14}
+            color="#666"
+            hoverColor="#333"
+            title="Duplicate"
+            onPress={props.onDuplicate}
+          />
+          <IconButton
+            icon="delete"
+            iconSize={14}
+            color="#666"
+            hoverColor="#333"
+            title="Delete"
+            onPress={props.onDelete}
+          />
+        </>
+      )}
+    </Box>
+  );
+}
+
+const styles = {
+  container: {
+    width: snippetsPanelWidth,
+    display: "flex",
+    flexDirection: "column",
+    alignSelf: "stretch",
+    borderRight: "1px solid #ccc",
+  },
+  header: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "center",
+    pr: 0.5,
+  },
+  headerTitleText: {
+    flex: 1,
+    p: 1,
+    color: "#333",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  fileInput: {
+    display: "none",
+  },
+  scrollContainer: {
+    flex: 1,
+    flexBasis: 0,
+    overflow: "auto",
+  },
+  snippetContainer: {
+    display: "flex",
+    flexDirection: "row",
+    alignItems: "center",
+    pr: 0.5,
+  },
+  snippetContainerActive: {
+    bgcolor: "#e8e8f8",
+  },
+  snippetContainerHover: {
+    bgcolor: "#eee",
+  },
+  snippetButton: {
+    flex: 1,
+    minWidth: 0,
+    py: 0.5,
+    pl: 1,
+    justifyContent: "flex-start",
+    textAlign: "left",
+  },
+  snippetText: {
+    fontSize: 13,
+    lineHeight: "16px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+  },
+};
@@ -2,9 +2,21 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { apiAddressPrefix } from "@/components/PlaygroundSettings";
+import { getSharedStateFromUrl, removeSharedStateFromUrl } from "@/services/ShareUtils";
+import { loadLocalSnippets } from "@/services/SnippetStorage";
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-);
+// A shared link is opened as a new snippet. Otherwise the snippet that was
+// open when the playground was last used is restored.
+getSharedStateFromUrl(apiAddressPrefix)
+  .then((sharedState) => {
+    removeSharedStateFromUrl();
+    return loadLocalSnippets(sharedState);
+  })
+  .then(({ snippets, activeSnippetId }) => {
+    createRoot(document.getElementById("root")!).render(
+      <StrictMode>
+        <App initialSnippets={snippets} initialSnippetId={activeSnippetId} />
+      </StrictMode>,
+    );
+  });
@@ -6,6 +6,7 @@
 import type { PlaygroundState } from "@/components/PlaygroundSettings";
 
 const localStorageKeyName = "playgroundState";
+const lastOpenedSnippetKeyName = "lastOpenedSnippetId";
 
 export function getInitialStateFromLocalStorage(): PlaygroundState {
   const initialStateJson = getLocalStorageItem(localStorageKeyName);
@@ -28,6 +29,15 @@ export function setStateToLocalStorage(state: PlaygroundState) {
   setLocalStorageItem(localStorageKeyName, JSON.stringify(state));
 }
 
+// Returns the ID of the snippet that was open when the playground was last used.
+export function getLastOpenedSnippetIdFromLocalStorage(): string | undefined {
+  return getLocalStorageItem(lastOpenedSnippetKeyName);
+}
+
+export function setLastOpenedSnippetIdToLocalStorage(id: string) {
+  setLocalStorageItem(lastOpenedSnippetKeyName, id);
+}
+
 function getLocalStorageItem(key: string): string | undefined {
   try {
     return localStorage.getItem(key) ?? undefined;
@@ -0,0 +1,188 @@
+/*
+ * Copyright (c) Eric Traut
+ * Utility functions for validating a playground state that comes from
+ * outside of the app (e.g. a shared link or an imported file).
+ */
+
+import type { EditorSettings, PlaygroundState } from "@/components/PlaygroundSettings";
+import { mainFileName } from "@/components/PlaygroundSettings";
+import {
+  diagnosticRuleSeverities,
+  pythonPlatforms,
+  typeCheckingModes,
+} from "@/components/PyrightConfigSettings";
+import type {
+  ConfigFile,
+  ConfigValue,
+  DiagnosticRuleSeverity,
+  LspSettings,
+  PythonPlatform,
+  TypeCheckingMode,
+} from "@/LspMonaco/services/LspSession";
+import { isValidFileName } from "@/LspMonaco/utils/fileUris";
+
+type UnknownObject = { [name: string]: unknown };
+
+// Returns the state if it has the shape of a PlaygroundState, or undefined
+// if it doesn't. Only the known fields are copied to the returned state.
+export function parsePlaygroundState(value: unknown): PlaygroundState | undefined {
+  if (!isObject(value) || typeof value.code !== "string") {
+    return undefined;
+  }
+
+  const settings = parseSettings(value.settings);
+  if (!settings) {
+    return undefined;
+  }
+
+  const state: PlaygroundState = { code: value.code, settings };
+
+  if (value.extraFiles !== undefined) {
+    const extraFiles = parseExtraFiles(value.extraFiles);
+    if (!extraFiles) {
+      return undefined;
+    }
+
+    state.extraFiles = extraFiles;
+  }
+
+  if (value.editorSettings !== undefined) {
+    const editorSettings = parseEditorSettings(value.editorSettings);
+    if (!editorSettings) {
+      return undefined;
+    }
+
+    state.editorSettings = editorSettings;
+  }
+
+  return state;
+}
+
+function parseSettings(value: unknown): LspSettings | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const configOverrides = parseConfigOverrides(value.configOverrides ?? {});
+  if (!configOverrides) {
+    return undefined;
+  }
+
+  const settings: LspSettings = { configOverrides };
+
+  if (value.pyrightVersion !== undefined) {
+    if (typeof value.pyrightVersion !== "string") {
+      return undefined;
+    }
+
+    settings.pyrightVersion = value.pyrightVersion;
+  }
+
+  if (value.typeCheckingMode !== undefined) {
+    if (!typeCheckingModes.includes(value.typeCheckingMode as TypeCheckingMode)) {
+      return undefined;
+    }
+
+    settings.typeCheckingMode = value.typeCheckingMode as TypeCheckingMode;
+  }
+
+  if (value.pythonVersion !== undefined) {
+    if (typeof value.pythonVersion !== "string" || !/^3\.\d+$/.test(value.pythonVersion)) {
+      return undefined;
+    }
+
+    settings.pythonVersion = value.pythonVersion;
+  }
+
+  if (value.pythonPlatform !== undefined) {
+    if (!pythonPlatforms.includes(value.pythonPlatform as PythonPlatform)) {
+      return undefined;
+    }
+
+    settings.pythonPlatform = value.pythonPlatform as PythonPlatform;
+  }
+
+  if (value.packages !== undefined) {
+    if (!Array.isArray(value.packages) || !value.packages.every((p) => typeof p === "string")) {
+      return undefined;
+    }
+
+    settings.packages = value.packages;
+  }
+
+  if (value.configFile !== undefined) {
+    const configFile = parseConfigFile(value.configFile);
+    if (!configFile) {
+      return undefined;
+    }
+
+    settings.configFile = configFile;
+  }
+
+  return settings;
+}
+
+function parseConfigOverrides(value: unknown): { [name: string]: ConfigValue } | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const configOverrides: { [name: string]: ConfigValue } = {};
+  for (const name of Object.keys(value)) {
+    const configValue = value[name];
+    if (
+      typeof configValue !== "boolean" &&
+      !diagnosticRuleSeverities.includes(configValue as DiagnosticRuleSeverity)
+    ) {
+      return undefined;
+    }
+
+    configOverrides[name] = configValue as ConfigValue;
+  }
+
+  return configOverrides;
+}
+
+function parseConfigFile(value: unknown): ConfigFile | undefined {
+  if (
+    !isObject(value) ||
+    (value.format !== "json" && value.format !== "toml") ||
+    typeof value.text !== "string"
+  ) {
+    return undefined;
+  }
+
+  return { format: value.format, text: value.text };
+}
+
+// The main file isn't allowed as an extra file because its contents are
+// stored separately.
+function parseExtraFiles(value: unknown): { [fileName: string]: string } | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const extraFiles: { [fileName: string]: string } = {};
+  for (const fileName of Object.keys(value)) {
+    const code = value[fileName];
+    if (!isValidFileName(fileName) || fileName === mainFileName || typeof code !== "string") {
+      return undefined;
+    }
+
+    extraFiles[fileName] = code;
+  }
+
+  return extraFiles;
+}
+
+function parseEditorSettings(value: unknown): EditorSettings | undefined {
+  if (!isObject(value) || typeof value.inlayHints !== "boolean") {
+    return undefined;
+  }
+
+  return { inlayHints: value.inlayHints };
+}
+
+function isObject(value: unknown): value is UnknownObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
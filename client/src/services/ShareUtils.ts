@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Eric Traut
+ * Utility functions for sharing the playground state through a link. The
+ * state is either compressed and stored in the URL's fragment (so it is never
+ * sent to the server) or saved on the server as a snippet with a short ID.
+ */
+
+import type { PlaygroundState } from "@/components/PlaygroundSettings";
+import { endpointRequest } from "@/LspMonaco/services/EndpointUtils";
+import { parsePlaygroundState } from "./PlaygroundStateUtils";
+
+// Name of the fragment parameter that holds the shared state.
+const fragmentParamName = "share";
+
+// Path of a link to a snippet saved on the server.
+const snippetPathRegex = /^\/s\/([A-Za-z0-9_-]+)$/;
+
+// Version of the format used to encode the shared state. Links and snippets
+// are tagged with the version that created them. If the format of the state
+// changes, bump this version and teach upgradeSharedState how to convert
+// states encoded with the previous version so existing links keep working.
+const sharedStateVersion = 1;
+
+// Returns a link that opens the playground with the specified state.
+export async function getShareUrl(state: PlaygroundState): Promise<string> {
+  const json = JSON.stringify(getSharedState(state));
+  const payload = toBase64Url(await compress(new TextEncoder().encode(json)));
+
+  const url = new URL(window.location.href);
+  url.hash = `${fragmentParamName}=${sharedStateVersion}.${payload}`;
+  return url.toString();
+}
+
+// Saves the state on the server and returns a short link to it.
+export async function saveSnippet(
+  apiAddressPrefix: string,
+  state: PlaygroundState,
+): Promise<string> {
+  const response = await endpointRequest("POST", apiAddressPrefix + "snippets", {
+    version: sharedStateVersion,
+    ...getSharedState(state),
+  });
+
+  return new URL(`/s/${response.id}`, window.location.href).toString();
+}
+
+// Returns true if the current URL contains a shared state.
+export function hasSharedStateInUrl(): boolean {
+  return getFragmentParam() !== undefined;
+}
+
+// Returns the state referenced by the current URL, or undefined if the URL
+// doesn't refer to a valid shared state. The URL can refer to a snippet saved
+// on the server or contain the state itself.
+export async function getSharedStateFromUrl(
+  apiAddressPrefix: string,
+): Promise<PlaygroundState | undefined> {
+  const snippetId = window.location.pathname.match(snippetPathRegex)?.[1];
+  if (snippetId) {
+    try {
+      const snippet = await endpointRequest("GET", apiAddressPrefix + `snippets/${snippetId}`);
+      return upgradeSharedState(snippet.version, snippet);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const param = getFragmentParam();
+  if (!param) {
+    return undefined;
+  }
+
+  const separatorIndex = param.indexOf(".");
+  const version = parseInt(param.substring(0, separatorIndex), 10);
+  if (separatorIndex < 0 || isNaN(version) || version > sharedStateVersion) {
+    return undefined;
+  }
+
+  try {
+    const data = await decompress(fromBase64Url(param.substring(separatorIndex + 1)));
+    return upgradeSharedState(version, JSON.parse(new TextDecoder().decode(data)));
+  } catch {
+    return undefined;
+  }
+}
+
+// Removes the shared state from the current URL so later changes (which
+// are saved to local storage) aren't replaced by it when the page reloads.
+export function removeSharedStateFromUrl() {
+  const url = new URL(window.location.href);
+  if (snippetPathRegex.test(url.pathname)) {
+    url.pathname = "/";
+  } else if (!hasSharedStateInUrl()) {
+    return;
+  }
+
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+}
+
+function getSharedState(state: PlaygroundState): PlaygroundState {
+  return {
+    code: state.code,
+    extraFiles: state.extraFiles,
+    settings: state.settings,
+    editorSettings: state.editorSettings,
+  };
+}
+
+// Converts a state that was encoded with the specified version of the format
+// to the current PlaygroundState. Returns undefined if the state is invalid.
+function upgradeSharedState(version: unknown, state: unknown): PlaygroundState | undefined {
+  if (version !== 1) {
+    return undefined;
+  }
+
+  return parsePlaygroundState(state);
+}
+
+function getFragmentParam(): string | undefined {
+  const params = new URLSearchParams(window.location.hash.substring(1));
+  return params.get(fragmentParamName) ?? undefined;
+}
+
+async function compress(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Encodes binary data with the URL-safe variant of base64.
+function toBase64Url(data: Uint8Array): string {
+  let binary = "";
+  data.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,199 @@
+/*
+ * Copyright (c) Eric Traut
+ * Utility functions for storing a collection of named snippets in the
+ * browser's IndexedDB database.
+ */
+
+import type { PlaygroundState } from "@/components/PlaygroundSettings";
+import {
+  getInitialStateFromLocalStorage,
+  getLastOpenedSnippetIdFromLocalStorage,
+  setLastOpenedSnippetIdToLocalStorage,
+} from "./LocalStorageUtils";
+import { parsePlaygroundState } from "./PlaygroundStateUtils";
+
+export interface LocalSnippet {
+  id: string;
+  name: string;
+  state: PlaygroundState;
+
+  // Time (in ms since the epoch) the snippet was last changed.
+  modifiedTime: number;
+}
+
+const databaseName = "pyrightPlayground";
+const databaseVersion = 1;
+const snippetStoreName = "snippets";
+
+// Version of the format used to export a collection of snippets.
+const exportFormatVersion = 1;
+
+const defaultSnippetName = "Untitled";
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+// Loads the stored snippets and determines which one to open. If a shared
+// state is specified, it's added as a new snippet and opened. Otherwise the
+// last opened snippet is opened. If the database is unavailable, the state
+// saved in local storage is used.
+export async function loadLocalSnippets(
+  sharedState?: PlaygroundState,
+): Promise<{ snippets: LocalSnippet[]; activeSnippetId: string }> {
+  let snippets: LocalSnippet[] = [];
+  try {
+    snippets = await getLocalSnippets();
+  } catch {
+    // Fall through.
+  }
+
+  let activeSnippet: LocalSnippet | undefined;
+  if (!sharedState) {
+    const lastOpenedId = getLastOpenedSnippetIdFromLocalStorage();
+    activeSnippet =
+      snippets.find((snippet) => snippet.id === lastOpenedId) ??
+      getMostRecentlyModifiedSnippet(snippets);
+  }
+
+  if (!activeSnippet) {
+    activeSnippet = createLocalSnippet(
+      getUniqueSnippetName(sharedState ? "Shared snippet" : defaultSnippetName, snippets),
+      sharedState ?? getInitialStateFromLocalStorage(),
+    );
+
+    snippets = [...snippets, activeSnippet];
+    putLocalSnippets([activeSnippet]).catch(() => {
+      // The snippet is available until the page is closed.
+    });
+  }
+
+  setLastOpenedSnippetIdToLocalStorage(activeSnippet.id);
+  return { snippets, activeSnippetId: activeSnippet.id };
+}
+
+export async function getLocalSnippets(): Promise<LocalSnippet[]> {
+  return runTransaction("readonly", (store) => store.getAll());
+}
+
+// Adds the snippets to the database or replaces existing snippets that
+// have the same IDs.
+export async function putLocalSnippets(snippets: LocalSnippet[]): Promise<void> {
+  await runTransaction("readwrite", (store) => {
+    snippets.forEach((snippet) => store.put(snippet));
+  });
+}
+
+export async function deleteLocalSnippet(id: string): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(id));
+}
+
+export function createLocalSnippet(name: string, state: PlaygroundState): LocalSnippet {
+  return { id: crypto.randomUUID(), name, state, modifiedTime: Date.now() };
+}
+
+// Returns the name with a numeric suffix (e.g. "Untitled 2") if another
+// snippet already uses it.
+export function getUniqueSnippetName(name: string, snippets: LocalSnippet[]): string {
+  let uniqueName = name;
+  for (let i = 2; snippets.some((snippet) => snippet.name === uniqueName); i++) {
+    uniqueName = `${name} ${i}`;
+  }
+
+  return uniqueName;
+}
+
+export function getMostRecentlyModifiedSnippet(snippets: LocalSnippet[]): LocalSnippet | undefined {
+  return snippets.reduce<LocalSnippet | undefined>((mostRecent, snippet) => {
+    return !mostRecent || snippet.modifiedTime > mostRecent.modifiedTime ? snippet : mostRecent;
+  }, undefined);
+}
+
+// Serializes a collection of snippets so it can be saved to a file.
+export function exportLocalSnippets(snippets: LocalSnippet[]): string {
+  return JSON.stringify(
+    {
+      version: exportFormatVersion,
+      snippets: snippets.map((snippet) => ({
+        name: snippet.name,
+        state: snippet.state,
+        modifiedTime: snippet.modifiedTime,
+      })),
+    },
+    undefined,
+    2,
+  );
+}
+
+// Parses a collection of snippets that was previously exported. The
+// snippets are assigned new IDs so they don't replace existing snippets.
+// Throws an error if the collection is invalid.
+export function importLocalSnippets(json: string): LocalSnippet[] {
+  const data: unknown = JSON.parse(json);
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    !("version" in data) ||
+    data.version !== exportFormatVersion ||
+    !("snippets" in data) ||
+    !Array.isArray(data.snippets)
+  ) {
+    throw new Error("The file doesn't contain exported snippets");
+  }
+
+  return data.snippets.map((snippet: unknown) => {
+    const { name, state, modifiedTime } = (snippet ?? {}) as {
+      name?: unknown;
+      state?: unknown;
+      modifiedTime?: unknown;
+    };
+
+    const parsedState = parsePlaygroundState(state);
+    if (typeof name !== "string" || !parsedState) {
+      throw new Error("The file contains an invalid snippet");
+    }
+
+    return {
+      ...createLocalSnippet(name, parsedState),
+      modifiedTime: typeof modifiedTime === "number" ? modifiedTime : Date.now(),
+    };
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, databaseVersion);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(snippetStoreName, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Try again next time if the database couldn't be opened.
+    databasePromise.catch(() => {
+      databasePromise = undefined;
+    });
+  }
+
+  return databasePromise;
+}
+
+// Runs the callback in a transaction on the snippet store. Resolves to
+// the result of the request returned by the callback (if any) once the
+// transaction completes.
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> {
+  const database = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(snippetStoreName, mode);
+    const request = callback(transaction.objectStore(snippetStoreName));
+
+    transaction.oncomplete = () => resolve(request?.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
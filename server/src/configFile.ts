@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) Eric Traut
+ * Parses the configuration files (pyrightconfig.json or the [tool.pyright]
+ * section of pyproject.toml) that users can supply for a session.
+ */
+
+import { ParseError, parse as parseJsonc, printParseErrorCode } from "jsonc-parser";
+import { parse as parseToml } from "smol-toml";
+import { ConfigFile } from "./session";
+
+export type PyrightConfig = { [name: string]: unknown };
+
+// Reported when a configuration file can't be parsed.
+export class InvalidConfigFileError extends Error {}
+
+// Returns the settings in the configuration file. Throws an
+// InvalidConfigFileError if the file is malformed.
+export function parseConfigFile(configFile: ConfigFile): PyrightConfig {
+  return configFile.format === "toml"
+    ? parsePyprojectToml(configFile.text)
+    : parsePyrightConfigJson(configFile.text);
+}
+
+// Parses a pyrightconfig.json file. Like pyright, this allows comments and
+// trailing commas.
+function parsePyrightConfigJson(text: string): PyrightConfig {
+  const errors: ParseError[] = [];
+  const config = parseJsonc(text, errors, { allowTrailingComma: true });
+
+  if (errors.length > 0) {
+    const error = errors[0];
+    const line = text.substring(0, error.offset).split("\n").length;
+    throw new InvalidConfigFileError(
+      `pyrightconfig.json: ${printParseErrorCode(error.error)} on line ${line}`,
+    );
+  }
+
+  if (!isObject(config)) {
+    throw new InvalidConfigFileError("pyrightconfig.json: Expected an object");
+  }
+
+  return config;
+}
+
+// Parses a pyproject.toml file and returns its [tool.pyright] section.
+function parsePyprojectToml(text: string): PyrightConfig {
+  let data: unknown;
+  try {
+    data = parseToml(text);
+  } catch (e) {
+    throw new InvalidConfigFileError(`pyproject.toml: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const tool = isObject(data) ? data.tool : undefined;
+  const config = isObject(tool) ? tool.pyright : undefined;
+
+  if (config === undefined) {
+    return {};
+  }
+
+  if (!isObject(config)) {
+    throw new InvalidConfigFileError("pyproject.toml: Expected [tool.pyright] to be a table");
+  }
+
+  return config;
+}
+
+function isObject(value: unknown): value is PyrightConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
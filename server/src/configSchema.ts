@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) Eric Traut
+ * Determines the configuration settings supported by an installed language
+ * server package, including their value types and their default values in
+ * each type checking mode.
+ */
+
+import { fork } from "child_process";
+import * as path from "path";
+import { logger } from "./logging";
+import { DiagnosticRuleSeverity, TypeCheckingMode } from "./session";
+import { LanguageServerVersion } from "./versionRegistry";
+
+export type ConfigValue = boolean | DiagnosticRuleSeverity;
+
+export interface ConfigSchemaSetting {
+  name: string;
+
+  // Diagnostic rules accept a severity level. Other settings are booleans.
+  valueType: "boolean" | "severity";
+
+  // Value of the setting in each type checking mode.
+  defaultValues: { [mode in TypeCheckingMode]: ConfigValue };
+}
+
+export interface ConfigSchema {
+  // ID of the language server version the schema describes.
+  languageServer: string;
+
+  settings: ConfigSchemaSetting[];
+}
+
+// The result that the child process reading a schema sends. The settings
+// are undefined if the package doesn't define them in the expected way.
+export type ConfigSchemaReaderResult =
+  | { settings: ConfigSchemaSetting[] | undefined; error?: undefined }
+  | { settings?: undefined; error: string };
+
+// Script (built alongside the server's main script) that runs in a child
+// process to read the settings from a language server package.
+const readerScriptPath = path.join(__dirname, "configSchemaReader.js");
+
+// Time (in ms) to wait for the child process to read a schema.
+const readerTimeout = 30 * 1000;
+
+// The schemas are read the first time they are needed.
+const configSchemas = new Map<string, Promise<ConfigSchema | undefined>>();
+
+// Returns the schema of the language server's configuration settings, or
+// undefined if it can't be determined.
+export function getConfigSchema(
+  languageServer: LanguageServerVersion,
+): Promise<ConfigSchema | undefined> {
+  let schema = configSchemas.get(languageServer.id);
+  if (!schema) {
+    schema = readConfigSchema(languageServer);
+    configSchemas.set(languageServer.id, schema);
+  }
+
+  return schema;
+}
+
+// The pyright package doesn't include its JSON schema, so the settings and
+// their defaults are read from the module in pyright's bundle that defines
+// them. This requires loading much of the bundle, so it's done in a child
+// process (see configSchemaReader.ts). This works only for packages that
+// are bundled like pyright's.
+async function readConfigSchema(
+  languageServer: LanguageServerVersion,
+): Promise<ConfigSchema | undefined> {
+  const distDirPath = path.join(path.dirname(languageServer.langServerPath), "dist");
+
+  let result: ConfigSchemaReaderResult;
+  try {
+    result = await runReader(distDirPath);
+  } catch (err) {
+    result = { error: `${err}` };
+  }
+
+  if (result.error !== undefined) {
+    logger.error(`Failed to read configuration schema for ${languageServer.id}: ${result.error}`);
+    return undefined;
+  }
+
+  if (!result.settings) {
+    logger.info(`Configuration schema is unavailable for ${languageServer.id}`);
+    return undefined;
+  }
+
+  return { languageServer: languageServer.id, settings: result.settings };
+}
+
+function runReader(distDirPath: string): Promise<ConfigSchemaReaderResult> {
+  return new Promise<ConfigSchemaReaderResult>((resolve, reject) => {
+    const readerProcess = fork(readerScriptPath, [distDirPath], {
+      stdio: ["ignore", "ignore", "ignore", "ipc"],
+    });
+
+    const timer = setTimeout(() => {
+      readerProcess.kill();
+      reject(new Error("Timed out"));
+    }, readerTimeout);
+
+    readerProcess.on("message", (message) => {
+      clearTimeout(timer);
+      resolve(message as ConfigSchemaReaderResult);
+    });
+
+    readerProcess.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    readerProcess.on("exit", (code, signal) => {
+      clearTimeout(timer);
+      reject(new Error(`Exited with code ${code ?? signal}`));
+    });
+  });
+}
@@ -0,0 +1,228 @@
+/*
+ * Copyright (c) Eric Traut
+ * Entry point for a child process that reads the configuration settings
+ * supported by an installed pyright package. Reading them requires running
+ * a large part of the package's code, so it's kept out of the server process.
+ *
+ * The path of the package's "dist" directory is passed as an argument, and
+ * the result is sent to the parent process as a ConfigSchemaReaderResult.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+import type { ConfigSchemaReaderResult, ConfigSchemaSetting, ConfigValue } from "./configSchema";
+import type { TypeCheckingMode } from "./session";
+
+// Node's require function, which webpack doesn't replace with its own.
+declare const __non_webpack_require__: NodeRequire;
+
+type DiagnosticRuleSet = { [name: string]: ConfigValue };
+
+// Functions exported by the module in pyright's bundle that defines the
+// configuration settings (configOptions.ts in the pyright sources).
+interface ConfigOptionsModule {
+  getOffDiagnosticRuleSet(): DiagnosticRuleSet;
+  getBasicDiagnosticRuleSet(): DiagnosticRuleSet;
+  getStandardDiagnosticRuleSet(): DiagnosticRuleSet;
+  getStrictDiagnosticRuleSet(): DiagnosticRuleSet;
+  getBooleanDiagnosticRules(): string[];
+  getDiagLevelDiagnosticRules(): string[];
+}
+
+const configOptionsFunctionNames: (keyof ConfigOptionsModule)[] = [
+  "getOffDiagnosticRuleSet",
+  "getBasicDiagnosticRuleSet",
+  "getStandardDiagnosticRuleSet",
+  "getStrictDiagnosticRuleSet",
+  "getBooleanDiagnosticRules",
+  "getDiagLevelDiagnosticRules",
+];
+
+type ModuleExports = { [name: string]: unknown };
+type WebpackModule = { exports: ModuleExports };
+type WebpackModuleFactory = (
+  module: WebpackModule,
+  exports: ModuleExports,
+  require: WebpackRequire,
+) => void;
+
+// The subset of webpack's runtime that pyright's generated code uses.
+interface WebpackRequire {
+  (id: string): ModuleExports;
+  o: (obj: object, prop: string) => boolean;
+  d: (exports: object, definition: { [name: string]: () => unknown }) => void;
+  n: (module: ModuleExports) => () => unknown;
+  r: (exports: object) => void;
+}
+
+// Files within the package's "dist" directory that contain the modules
+// of pyright's webpack bundle (the language server script loads them).
+const bundleChunkFileNames = ["vendor.js", "pyright-internal.js"];
+const bundleMainFileName = "pyright-langserver.js";
+
+sendResult(readConfigSchemaSettings(process.argv[2]));
+
+function sendResult(result: ConfigSchemaReaderResult) {
+  if (!process.send) {
+    console.log(JSON.stringify(result));
+    return;
+  }
+
+  // Exit once the result has been delivered. Pyright's modules may have
+  // left timers running.
+  process.send(result, () => {
+    process.exit(0);
+  });
+}
+
+function readConfigSchemaSettings(distDirPath: string | undefined): ConfigSchemaReaderResult {
+  if (!distDirPath) {
+    return { error: "The path of the package's dist directory was not specified" };
+  }
+
+  try {
+    const configOptions = loadConfigOptionsModule(distDirPath);
+    if (!configOptions) {
+      return { settings: undefined };
+    }
+
+    const ruleSets: { [mode in TypeCheckingMode]: DiagnosticRuleSet } = {
+      off: configOptions.getOffDiagnosticRuleSet(),
+      basic: configOptions.getBasicDiagnosticRuleSet(),
+      standard: configOptions.getStandardDiagnosticRuleSet(),
+      strict: configOptions.getStrictDiagnosticRuleSet(),
+    };
+
+    const getSetting = (
+      name: string,
+      valueType: ConfigSchemaSetting["valueType"],
+    ): ConfigSchemaSetting => {
+      return {
+        name,
+        valueType,
+        defaultValues: {
+          off: ruleSets.off[name],
+          basic: ruleSets.basic[name],
+          standard: ruleSets.standard[name],
+          strict: ruleSets.strict[name],
+        },
+      };
+    };
+
+    return {
+      settings: [
+        ...configOptions.getBooleanDiagnosticRules().map((name) => getSetting(name, "boolean")),
+        ...configOptions.getDiagLevelDiagnosticRules().map((name) => getSetting(name, "severity")),
+      ],
+    };
+  } catch (err) {
+    return { error: `${err}` };
+  }
+}
+
+// Loads the module that defines the configuration settings, or returns
+// undefined if the bundle doesn't contain one that exports the expected
+// functions.
+function loadConfigOptionsModule(distDirPath: string): ConfigOptionsModule | undefined {
+  const exports = loadBundleModule(distDirPath, "getStrictDiagnosticRuleSet=");
+  if (!exports) {
+    return undefined;
+  }
+
+  if (!configOptionsFunctionNames.every((name) => typeof exports[name] === "function")) {
+    return undefined;
+  }
+
+  return exports as unknown as ConfigOptionsModule;
+}
+
+// Returns the exports of the module in the bundle whose code contains the
+// specified text, or undefined if there is no such module. The module is
+// loaded using a minimal implementation of the webpack runtime.
+function loadBundleModule(distDirPath: string, text: string): ModuleExports | undefined {
+  const moduleFactories: { [id: string]: WebpackModuleFactory } = {};
+
+  for (const fileName of bundleChunkFileNames) {
+    const filePath = path.join(distDirPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    Object.assign(moduleFactories, loadBundleChunk(filePath));
+  }
+
+  // The bundle's main file defines the modules that refer to Node's built-in
+  // modules (e.g. 'e=>{"use strict";e.exports=require("fs")}').
+  const mainText = fs.readFileSync(path.join(distDirPath, bundleMainFileName), "utf8");
+  for (const match of mainText.matchAll(
+    /(\d+):\(?e\)?=>\{"use strict";e\.exports=require\("([\w:/]+)"\)\}/g,
+  )) {
+    const name = match[2];
+    moduleFactories[match[1]] = (module) => {
+      module.exports = __non_webpack_require__(name);
+    };
+  }
+
+  const moduleId = Object.keys(moduleFactories).find((id) =>
+    moduleFactories[id].toString().includes(text),
+  );
+  if (!moduleId) {
+    return undefined;
+  }
+
+  const moduleCache = new Map<string, WebpackModule>();
+  const webpackRequire = ((id: string) => {
+    let module = moduleCache.get(id);
+    if (!module) {
+      if (!moduleFactories[id]) {
+        throw new Error(`Module ${id} not found in bundle`);
+      }
+
+      module = { exports: {} };
+      moduleCache.set(id, module);
+      moduleFactories[id].call(module.exports, module, module.exports, webpackRequire);
+    }
+
+    return module.exports;
+  }) as WebpackRequire;
+
+  webpackRequire.o = (obj, prop) => Object.prototype.hasOwnProperty.call(obj, prop);
+  webpackRequire.d = (exports, definition) => {
+    Object.keys(definition).forEach((name) => {
+      if (!webpackRequire.o(exports, name)) {
+        Object.defineProperty(exports, name, { enumerable: true, get: definition[name] });
+      }
+    });
+  };
+  webpackRequire.n = (module) => {
+    const getter = module?.__esModule ? () => module.default : () => module;
+    webpackRequire.d(getter, { a: getter });
+    return getter;
+  };
+  webpackRequire.r = (exports) => {
+    Object.defineProperty(exports, Symbol.toStringTag, { value: "Module" });
+    Object.defineProperty(exports, "__esModule", { value: true });
+  };
+
+  return webpackRequire(moduleId);
+}
+
+// Loads a chunk file of the bundle, which assigns the module factories it
+// contains to "exports.modules".
+function loadBundleChunk(filePath: string): { [id: string]: WebpackModuleFactory } {
+  const chunkText = fs.readFileSync(filePath, "utf8");
+  const chunk: { exports: { modules?: { [id: string]: WebpackModuleFactory } } } = {
+    exports: {},
+  };
+
+  const loadChunk: (exports: object, module: object) => void = vm.runInThisContext(
+    `(function (exports, module) {${chunkText}\n})`,
+    {
+      filename: filePath,
+    },
+  );
+  loadChunk(chunk.exports, chunk);
+
+  return chunk.exports.modules ?? {};
+}
@@ -1,12 +1,112 @@
 /*
  * Copyright (c) Eric Traut
- * Provides logging APIs that can output to both the local console
- * and app insights in the cloud.
+ * Provides logging APIs that write structured (JSON) log entries to the
+ * console and optionally to a rotating log file. Each entry is tagged with
+ * the request, session and document that it relates to.
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { IncomingMessage } from "http";
+import { v4 as uuid } from "uuid";
 import * as winston from "winston";
 
-// Create a simple console logger transport.
+// Identifies the work that a log entry relates to.
+export interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+  uri?: string;
+  documentVersion?: number;
+}
+
+export interface LoggingOptions {
+  // Minimum level to log ("error", "warn", "info", "http", "verbose",
+  // "debug" or "silly").
+  level: string;
+
+  // If specified, log entries are also appended to this file.
+  filePath?: string;
+
+  // Size (in bytes) at which the log file is rotated.
+  maxFileSize: number;
+
+  // Number of rotated log files to keep.
+  maxFiles: number;
+}
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+
+// Request IDs supplied by callers are used only if they're reasonably short
+// and can't be used to inject anything strange into the logs.
+const requestIdRegex = /^[\w.:-]{1,128}$/;
+
+// Adds the fields of the current log context to each entry unless the
+// entry already specifies them.
+const addLogContext = winston.format((info) => {
+  const context = logContextStorage.getStore();
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (value !== undefined && info[key] === undefined) {
+        info[key] = value;
+      }
+    }
+  }
+
+  return info;
+});
+
 export const logger = winston.createLogger({
+  level: "info",
+  format: winston.format.combine(
+    addLogContext(),
+    winston.format.timestamp(),
+    winston.format.json(),
+  ),
   transports: [new winston.transports.Console()],
 });
+
+export function configureLogging(options: LoggingOptions) {
+  if (winston.config.npm.levels[options.level] === undefined) {
+    logger.error(`Ignoring invalid log level: ${options.level}`);
+  } else {
+    logger.level = options.level;
+  }
+
+  if (options.filePath) {
+    logger.add(
+      new winston.transports.File({
+        filename: options.filePath,
+        maxsize: options.maxFileSize || undefined,
+        maxFiles: options.maxFiles || undefined,
+
+        // Keep the newest entries in the file with the configured name.
+        tailable: true,
+      }),
+    );
+  }
+}
+
+// Runs the callback (and any asynchronous work it starts) with a new
+// log context.
+export function runWithLogContext<T>(context: LogContext, callback: () => T): T {
+  return logContextStorage.run({ ...context }, callback);
+}
+
+// Adds fields to the current log context. This affects subsequent entries
+// logged by the current request and the asynchronous work it starts.
+export function updateLogContext(fields: LogContext) {
+  const context = logContextStorage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+// Returns the ID to use for an incoming HTTP request. Callers (such as a
+// proxy) can supply their own ID in the "X-Request-Id" header.
+export function getRequestId(req: IncomingMessage): string {
+  const requestId = req.headers["x-request-id"];
+  if (typeof requestId === "string" && requestIdRegex.test(requestId)) {
+    return requestId;
+  }
+
+  return uuid();
+}
@@ -0,0 +1,362 @@
+/*
+ * Copyright (c) Eric Traut
+ * Bridges JSON-RPC messages sent by the web client over a WebSocket to the
+ * language server associated with a session. Documents are synchronized with
+ * notifications, and diagnostics are pushed to the client as they are published.
+ */
+
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import {
+  AbstractMessageReader,
+  AbstractMessageWriter,
+  DataCallback,
+  Disposable,
+  ErrorCodes,
+  Message,
+  MessageConnection,
+  NotificationType,
+  ResponseError,
+  createMessageConnection,
+} from "vscode-jsonrpc/node";
+import {
+  CodeActionRequest,
+  CompletionRequest,
+  CompletionResolveRequest,
+  DeclarationRequest,
+  DefinitionRequest,
+  Diagnostic,
+  DidChangeTextDocumentNotification,
+  DidCloseTextDocumentNotification,
+  DidOpenTextDocumentNotification,
+  DocumentHighlightRequest,
+  DocumentSymbolRequest,
+  HoverRequest,
+  InlayHintRequest,
+  PublishDiagnosticsParams,
+  ReferencesRequest,
+  RenameRequest,
+  SemanticTokensDeltaRequest,
+  SemanticTokensRequest,
+  SignatureHelpRequest,
+  TextDocumentIdentifier,
+  TypeDefinitionRequest,
+} from "vscode-languageserver";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { LspClient, LspClientListener, isValidDocumentUri } from "./lspClient";
+import { LogContext, getRequestId, logger, runWithLogContext } from "./logging";
+import { allowedOrigins } from "./routes";
+import * as SessionManager from "./sessionManager";
+import { SessionId } from "./session";
+
+// WebSocket close code sent when the session is no longer available.
+// The client should create a new session and reopen its documents.
+const sessionClosedCode = 4000;
+
+// WebSocket close code sent when the session's language server crashed or
+// was killed by the watchdog. Resending the same code to a new session is
+// likely to crash it too, so the client shouldn't do so repeatedly.
+const sessionCrashedCode = 4001;
+
+// Notification sent to the client when its incremental changes to a
+// document cannot be applied. The client should resend the full text.
+const resyncTextDocumentNotification = new NotificationType<TextDocumentIdentifier>(
+  "playground/resyncTextDocument",
+);
+
+const bridgePathRegex = /^\/api\/session\/([^/?]+)\/ws(\?.*)?$/;
+
+class WebSocketMessageReader extends AbstractMessageReader {
+  constructor(
+    private _socket: WebSocket,
+    private _logContext: LogContext,
+  ) {
+    super();
+
+    _socket.on("close", () => this.fireClose());
+    _socket.on("error", (err) => this.fireError(err));
+  }
+
+  listen(callback: DataCallback): Disposable {
+    const handler = (data: RawData) => {
+      try {
+        // Messages arrive outside of the context of the HTTP request that
+        // opened the socket, so restore it for each message.
+        const message = JSON.parse(data.toString());
+        runWithLogContext(this._logContext, () => callback(message));
+      } catch (err) {
+        this.fireError(err);
+      }
+    };
+
+    this._socket.on("message", handler);
+
+    return {
+      dispose: () => {
+        this._socket.off("message", handler);
+      },
+    };
+  }
+}
+
+class WebSocketMessageWriter extends AbstractMessageWriter {
+  constructor(private _socket: WebSocket) {
+    super();
+  }
+
+  async write(msg: Message): Promise<void> {
+    if (this._socket.readyState === WebSocket.OPEN) {
+      this._socket.send(JSON.stringify(msg));
+    }
+  }
+
+  end() {
+    // Nothing to do.
+  }
+}
+
+// Accepts WebSocket connections for "/api/session/:sid/ws" on the
+// specified HTTP server.
+export function attachLspBridge(server: Server) {
+  const webSocketServer = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const match = req.url?.match(bridgePathRegex);
+    if (!match || !isAllowedOrigin(req.headers.origin)) {
+      socket.destroy();
+      return;
+    }
+
+    let sessionId: string;
+    try {
+      sessionId = decodeURIComponent(match[1]);
+    } catch {
+      socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const langClient = SessionManager.getSessionById(sessionId)?.langClient;
+    if (!langClient) {
+      socket.write("HTTP/1.1 404 Not Found\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const logContext: LogContext = { requestId: getRequestId(req), sessionId };
+    webSocketServer.handleUpgrade(req, socket, head, (webSocket) => {
+      runWithLogContext(logContext, () => {
+        startBridge(webSocket, sessionId, langClient, logContext);
+      });
+    });
+  });
+}
+
+function isAllowedOrigin(origin: string | undefined) {
+  // Non-browser clients don't send an origin.
+  if (!origin) {
+    return true;
+  }
+
+  return allowedOrigins.some((allowedOrigin) =>
+    typeof allowedOrigin === "string" ? allowedOrigin === origin : allowedOrigin.test(origin),
+  );
+}
+
+function startBridge(
+  webSocket: WebSocket,
+  sessionId: SessionId,
+  langClient: LspClient,
+  logContext: LogContext,
+) {
+  logger.info(`Opened WebSocket bridge for session ${sessionId}`);
+
+  const connection = createMessageConnection(
+    new WebSocketMessageReader(webSocket, logContext),
+    new WebSocketMessageWriter(webSocket),
+  );
+
+  // Documents that the client has opened.
+  const documents = new Set<string>();
+
+  const listener: LspClientListener = {
+    onDiagnostics: (uri, diagnostics) => {
+      if (documents.has(uri)) {
+        sendDiagnostics(connection, uri, diagnostics);
+      }
+    },
+    onReset: () => {
+      if (SessionManager.isSessionCrashed(sessionId)) {
+        webSocket.close(sessionCrashedCode, "Session crashed");
+      } else {
+        webSocket.close(sessionClosedCode, "Session closed");
+      }
+    },
+  };
+
+  langClient.addListener(listener);
+
+  // Looks up the text for a document referenced by a request. This also
+  // keeps the session alive for as long as the client is using it.
+  const getDocumentText = (uri: string): string => {
+    if (!SessionManager.getSessionById(sessionId)) {
+      webSocket.close(sessionClosedCode, "Session closed");
+      throw new ResponseError(ErrorCodes.InvalidRequest, "Unknown session ID");
+    }
+
+    const text = documents.has(uri) ? langClient.getDocumentText(uri) : undefined;
+    if (text === undefined) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `Document is not open: ${uri}`);
+    }
+
+    return text;
+  };
+
+  connection.onNotification(DidOpenTextDocumentNotification.type, (params) => {
+    const { uri, text, version } = params.textDocument;
+    if (!isValidDocumentUri(uri) || !SessionManager.getSessionById(sessionId)) {
+      return;
+    }
+
+    documents.add(uri);
+
+    langClient
+      .syncTextDocument(uri, text, version)
+      .then(() => {
+        // If the language server already published diagnostics for
+        // this text, it won't publish them again.
+        const diagnostics = langClient.getCachedDiagnostics(uri);
+        if (diagnostics && documents.has(uri)) {
+          sendDiagnostics(connection, uri, diagnostics);
+        }
+      })
+      .catch((err) => {
+        logger.error(`Error synchronizing document ${uri}: ${err}`);
+      });
+  });
+
+  connection.onNotification(DidChangeTextDocumentNotification.type, (params) => {
+    const { uri, version } = params.textDocument;
+    if (!documents.has(uri) || !SessionManager.getSessionById(sessionId)) {
+      return;
+    }
+
+    langClient
+      .applyTextDocumentChanges(uri, version, params.contentChanges)
+      .then((applied) => {
+        if (!applied) {
+          return connection.sendNotification(resyncTextDocumentNotification, { uri });
+        }
+      })
+      .catch((err) => {
+        logger.error(`Error applying changes to document ${uri}: ${err}`);
+      });
+  });
+
+  connection.onNotification(DidCloseTextDocumentNotification.type, (params) => {
+    const uri = params.textDocument.uri;
+    if (documents.delete(uri) && SessionManager.getSessionById(sessionId)) {
+      langClient.closeTextDocument(uri).catch((err) => {
+        logger.error(`Error closing document ${uri}: ${err}`);
+      });
+    }
+  });
+
+  connection.onRequest(HoverRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getHoverInfo(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(SignatureHelpRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getSignatureHelp(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(CompletionRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getCompletion(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(CompletionResolveRequest.type, (params) => {
+    return langClient.resolveCompletion(params);
+  });
+
+  connection.onRequest(RenameRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getRenameEdits(uri, getDocumentText(uri), params.position, params.newName);
+  });
+
+  connection.onRequest(DefinitionRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getDefinition(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(DeclarationRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getDeclaration(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(TypeDefinitionRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getTypeDefinition(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(ReferencesRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getReferences(
+      uri,
+      getDocumentText(uri),
+      params.position,
+      params.context.includeDeclaration,
+    );
+  });
+
+  connection.onRequest(DocumentHighlightRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getDocumentHighlights(uri, getDocumentText(uri), params.position);
+  });
+
+  connection.onRequest(SemanticTokensRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getSemanticTokens(uri, getDocumentText(uri));
+  });
+
+  connection.onRequest(SemanticTokensDeltaRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getSemanticTokensDelta(uri, getDocumentText(uri), params.previousResultId);
+  });
+
+  connection.onRequest(DocumentSymbolRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getDocumentSymbols(uri, getDocumentText(uri));
+  });
+
+  connection.onRequest(InlayHintRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getInlayHints(uri, getDocumentText(uri), params.range);
+  });
+
+  connection.onRequest(CodeActionRequest.type, (params) => {
+    const uri = params.textDocument.uri;
+    return langClient.getCodeActions(uri, getDocumentText(uri), params.range, params.context);
+  });
+
+  connection.onClose(() => {
+    logger.info(`Closed WebSocket bridge for session ${sessionId}`);
+    langClient.removeListener(listener);
+    connection.dispose();
+  });
+
+  connection.listen();
+}
+
+function sendDiagnostics(connection: MessageConnection, uri: string, diagnostics: Diagnostic[]) {
+  connection
+    .sendNotification(
+      new NotificationType<PublishDiagnosticsParams>("textDocument/publishDiagnostics"),
+      { uri, diagnostics },
+    )
+    .catch((err) => {
+      logger.error(`Error sending diagnostics to client: ${err}`);
+    });
+}
@@ -5,7 +5,11 @@
  */
 
 import { ChildProcess } from "node:child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
 import {
+  CancellationTokenSource,
   IPCMessageReader,
   IPCMessageWriter,
   MessageConnection,
@@ -14,51 +18,183 @@ import {
   createMessageConnection,
 } from "vscode-jsonrpc/node";
 import {
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  CodeActionParams,
+  CodeActionRequest,
   CompletionItem,
   CompletionList,
   CompletionParams,
   CompletionRequest,
   CompletionResolveRequest,
   ConfigurationParams,
+  DeclarationParams,
+  DeclarationRequest,
+  DefinitionParams,
+  DefinitionRequest,
   Diagnostic,
   DiagnosticTag,
   DidChangeConfigurationParams,
   DidChangeTextDocumentParams,
+  DidChangeWatchedFilesParams,
+  DidCloseTextDocumentParams,
   DidOpenTextDocumentParams,
+  DocumentHighlight,
+  DocumentHighlightParams,
+  DocumentHighlightRequest,
+  DocumentSymbol,
+  DocumentSymbolParams,
+  DocumentSymbolRequest,
+  FileChangeType,
   Hover,
   HoverParams,
   HoverRequest,
   InitializeParams,
   InitializeRequest,
+  InlayHint,
+  InlayHintParams,
+  InlayHintRequest,
+  Location,
+  LocationLink,
   LogMessageParams,
+  MessageType,
   Position,
   PublishDiagnosticsParams,
+  Range,
+  ReferenceParams,
+  ReferencesRequest,
+  RegistrationParams,
   RenameParams,
   RenameRequest,
+  SemanticTokenModifiers,
+  SemanticTokenTypes,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokensDeltaParams,
+  SemanticTokensDeltaRequest,
+  SemanticTokensLegend,
+  SemanticTokensParams,
+  SemanticTokensRequest,
+  ServerCapabilities,
   SignatureHelp,
   SignatureHelpParams,
   SignatureHelpRequest,
+  SymbolInformation,
+  TextDocumentContentChangeEvent,
+  TextDocumentEdit,
+  TokenFormat,
+  TypeDefinitionParams,
+  TypeDefinitionRequest,
   WorkspaceEdit,
 } from "vscode-languageserver";
-import { SessionOptions } from "./session";
-import { logger } from "./logging";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { logger, updateLogContext } from "./logging";
+import { Histogram } from "./metrics";
 
 interface DiagnosticRequest {
   callback: (diags: Diagnostic[], error?: Error) => void;
 }
 
-const documentUri = "file:///Untitled.py";
+// State tracked for each document that is open in the language server.
+interface DocumentState {
+  // URI used by the language server, which points into the project directory.
+  serverUri: string;
+  version: number;
+  text: string;
+  diags?: PublishDiagnosticsParams;
+
+  // Version assigned by the client to the current text, if known. Incremental
+  // changes from the client can be applied only if this is known.
+  clientVersion?: number;
+  pendingDiagRequests: Map<number, DiagnosticRequest[]>;
+
+  // Time at which the text first changed after the language server last
+  // published diagnostics for the current version.
+  changeTime?: number;
+}
+
+// Time between sending new text to the language server and receiving
+// the diagnostics for it.
+const diagnosticsTurnaroundHistogram = new Histogram(
+  "diagnostics_turnaround_seconds",
+  "Time between a document change and the publication of its diagnostics",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+);
+
+// Receives events from the language server on behalf of a client that
+// keeps a persistent connection to the session.
+export interface LspClientListener {
+  // Called when the language server publishes diagnostics for the
+  // current version of a document.
+  onDiagnostics: (uri: string, diagnostics: Diagnostic[]) => void;
+
+  // Called when the documents are discarded because the session is
+  // being closed or recycled.
+  onReset: () => void;
+}
+
+// Clients refer to documents using URIs that are relative to the root
+// of the session's project (e.g. "file:///pkg/__init__.py"). If a client
+// doesn't specify a URI, this one is assumed.
+export const defaultDocumentUri = "file:///main.py";
+
+// Determines whether a client-provided document URI is acceptable. Documents
+// must be Python source or stub files, and they must not escape the project.
+export function isValidDocumentUri(uri: string): boolean {
+  return getRelativeDocumentPath(uri) !== undefined;
+}
+
+function getRelativeDocumentPath(uri: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
+
+  if (url.protocol !== "file:" || url.host || url.search || url.hash) {
+    return undefined;
+  }
+
+  let relativePath: string;
+  try {
+    relativePath = decodeURIComponent(url.pathname).substring(1);
+  } catch {
+    return undefined;
+  }
+
+  const normalizedPath = path.posix.normalize(relativePath);
+  if (
+    url.href !== uri ||
+    normalizedPath !== relativePath ||
+    normalizedPath.startsWith("../") ||
+    normalizedPath.startsWith("venv/") ||
+    !/\.pyi?$/.test(normalizedPath)
+  ) {
+    return undefined;
+  }
+
+  return normalizedPath;
+}
 
 export class LspClient {
   private _connection: MessageConnection;
-  private _documentVersion = 1;
-  private _documentText = "";
-  private _documentDiags: PublishDiagnosticsParams | undefined;
-  private _pendingDiagRequests = new Map<number, DiagnosticRequest[]>();
+  private _projectPath = "";
+  private _projectUri = "";
+  private _documents = new Map<string, DocumentState>();
+  private _listeners = new Set<LspClientListener>();
+  private _serverCapabilities: ServerCapabilities = {};
+
+  // Time (in ms) to wait for the language server to respond to a request
+  // before giving up on it. Zero means no limit.
+  private _requestTimeout: number;
 
-  constructor(langServer: ChildProcess) {
-    langServer.stderr?.on("data", (data) => LspClient._logServerData(data));
-    langServer.stdout?.on("data", (data) => LspClient._logServerData(data));
+  constructor(langServer: ChildProcess, requestTimeout = 0) {
+    this._requestTimeout = requestTimeout;
+
+    langServer.stderr?.on("data", (data) => LspClient._logServerData(data, "warn"));
+    langServer.stdout?.on("data", (data) => LspClient._logServerData(data, "info"));
 
     this._connection = createMessageConnection(
       new IPCMessageReader(langServer),
@@ -68,10 +204,13 @@ export class LspClient {
     this._connection.listen();
   }
 
-  public async initialize(projectPath: string, sessionOptions?: SessionOptions) {
+  public async initialize(projectPath: string) {
+    this._projectPath = projectPath;
+    this._projectUri = pathToFileURL(projectPath).href;
+
     // Initialize the server.
     const init: InitializeParams = {
-      rootUri: `file://${projectPath}`,
+      rootUri: this._projectUri,
       rootPath: projectPath,
       processId: 1,
       capabilities: {
@@ -86,13 +225,51 @@ export class LspClient {
             contentFormat: ["markdown", "plaintext"],
           },
           signatureHelp: {},
+          definition: {},
+          declaration: {},
+          typeDefinition: {},
+          references: {},
+          documentHighlight: {},
+          documentSymbol: {
+            hierarchicalDocumentSymbolSupport: true,
+          },
+          inlayHint: {},
+          codeAction: {
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: [
+                  CodeActionKind.QuickFix,
+                  CodeActionKind.Refactor,
+                  CodeActionKind.Source,
+                  CodeActionKind.SourceOrganizeImports,
+                ],
+              },
+            },
+            isPreferredSupport: true,
+          },
+          semanticTokens: {
+            requests: {
+              full: {
+                delta: true,
+              },
+            },
+            tokenTypes: Object.values(SemanticTokenTypes),
+            tokenModifiers: Object.values(SemanticTokenModifiers),
+            formats: [TokenFormat.Relative],
+          },
+        },
+        workspace: {
+          // Advertise file watching support so the language server invalidates
+          // its import resolution cache when modules are added or removed.
+          didChangeWatchedFiles: {
+            dynamicRegistration: true,
+          },
         },
       },
     };
 
-    this._documentText = sessionOptions?.code ?? "";
-
-    await this._connection.sendRequest(InitializeRequest.type, init);
+    const initResult = await this._sendRequest(InitializeRequest.type, init);
+    this._serverCapabilities = initResult.capabilities;
 
     // Update the settings.
     await this._connection.sendNotification(
@@ -102,39 +279,46 @@ export class LspClient {
       },
     );
 
-    // Simulate an "open file" event.
-    await this._connection.sendNotification(
-      new NotificationType<DidOpenTextDocumentParams>("textDocument/didOpen"),
-      {
-        textDocument: {
-          uri: documentUri,
-          languageId: "python",
-          version: this._documentVersion,
-          text: this._documentText,
-        },
-      },
-    );
-
     // Receive diagnostics from the language server.
     this._connection.onNotification(
       new NotificationType<PublishDiagnosticsParams>("textDocument/publishDiagnostics"),
       (diagInfo) => {
         const diagVersion = diagInfo.version ?? -1;
 
-        logger.info(`Received diagnostics for version: ${diagVersion}`);
+        logger.info(`Received diagnostics for ${diagInfo.uri} version: ${diagVersion}`, {
+          documentVersion: diagVersion,
+        });
+
+        const document = this._findDocumentByServerUri(diagInfo.uri);
+        if (!document) {
+          return;
+        }
 
-        // Update the cached diagnostics.
-        if (this._documentDiags === undefined || this._documentDiags.version! < diagVersion) {
-          this._documentDiags = diagInfo;
+        // Update the cached diagnostics. Diagnostics for a document can be
+        // republished without a version change when a module it imports changes.
+        if (document.diags === undefined || document.diags.version! <= diagVersion) {
+          document.diags = diagInfo;
         }
 
         // Resolve any pending diagnostic requests.
-        const pendingRequests = this._pendingDiagRequests.get(diagVersion) ?? [];
-        this._pendingDiagRequests.delete(diagVersion);
+        const pendingRequests = document.pendingDiagRequests.get(diagVersion) ?? [];
+        document.pendingDiagRequests.delete(diagVersion);
 
         for (const request of pendingRequests) {
           request.callback(diagInfo.diagnostics);
         }
+
+        if (diagVersion === document.version) {
+          if (document.changeTime !== undefined) {
+            diagnosticsTurnaroundHistogram.observe((Date.now() - document.changeTime) / 1000);
+            document.changeTime = undefined;
+          }
+
+          const clientUri = this._toClientUri(diagInfo.uri)!;
+          this._listeners.forEach((listener) => {
+            listener.onDiagnostics(clientUri, diagInfo.diagnostics);
+          });
+        }
       },
     );
 
@@ -142,7 +326,7 @@ export class LspClient {
     this._connection.onNotification(
       new NotificationType<LogMessageParams>("window/logMessage"),
       (info) => {
-        logger.info(`Language server log message: ${info.message}`);
+        logger.log(getLogLevel(info.type), info.message, { source: "languageServer" });
       },
     );
 
@@ -154,31 +338,49 @@ export class LspClient {
         return [];
       },
     );
+
+    // Accept dynamic registrations (e.g. file watchers). There's nothing
+    // to do here because file changes are reported by this client.
+    this._connection.onRequest(
+      new RequestType<RegistrationParams, void, any>("client/registerCapability"),
+      () => {
+        return;
+      },
+    );
   }
 
-  async getDiagnostics(code: string): Promise<Diagnostic[]> {
-    const codeChanged = this._documentText !== code;
+  async getDiagnostics(uri: string, code: string): Promise<Diagnostic[]> {
+    const existingDocument = this._documents.get(uri);
+    const codeChanged = existingDocument?.text !== code;
 
     // If the code hasn't changed since the last time we received
     // a code update, return the cached diagnostics.
-    if (!codeChanged && this._documentDiags) {
-      return this._documentDiags.diagnostics;
+    if (!codeChanged && existingDocument?.diags) {
+      return existingDocument.diags.diagnostics;
     }
 
     // The diagnostics will come back asynchronously, so
     // return a promise.
     return new Promise<Diagnostic[]>(async (resolve, reject) => {
-      let documentVersion = this._documentVersion;
+      let documentVersion: number;
+      try {
+        documentVersion = await this.syncTextDocument(uri, code);
+      } catch (err) {
+        reject(err);
+        return;
+      }
 
-      if (codeChanged) {
-        documentVersion = await this.updateTextDocument(code);
+      const document = this._documents.get(uri);
+      if (!document) {
+        reject(new Error("Document was closed"));
+        return;
       }
 
       // Queue a request for diagnostics.
-      let requestList = this._pendingDiagRequests.get(documentVersion);
+      let requestList = document.pendingDiagRequests.get(documentVersion);
       if (!requestList) {
         requestList = [];
-        this._pendingDiagRequests.set(documentVersion, requestList);
+        document.pendingDiagRequests.set(documentVersion, requestList);
       }
 
       requestList.push({
@@ -195,20 +397,36 @@ export class LspClient {
     });
   }
 
-  async getHoverInfo(code: string, position: Position): Promise<Hover | null> {
-    let documentVersion = this._documentVersion;
-    if (this._documentText !== code) {
-      documentVersion = await this.updateTextDocument(code);
+  // Returns the most recently published diagnostics for a document if
+  // they reflect the current version of the document.
+  getCachedDiagnostics(uri: string): Diagnostic[] | undefined {
+    const document = this._documents.get(uri);
+    if (!document?.diags || document.diags.version !== document.version) {
+      return undefined;
     }
 
+    return document.diags.diagnostics;
+  }
+
+  addListener(listener: LspClientListener) {
+    this._listeners.add(listener);
+  }
+
+  removeListener(listener: LspClientListener) {
+    this._listeners.delete(listener);
+  }
+
+  async getHoverInfo(uri: string, code: string, position: Position): Promise<Hover | null> {
+    await this.syncTextDocument(uri, code);
+
     const params: HoverParams = {
       textDocument: {
-        uri: documentUri,
+        uri: this._toServerUri(uri),
       },
       position,
     };
 
-    const result = await this._connection.sendRequest(HoverRequest.type, params).catch((err) => {
+    const result = await this._sendRequest(HoverRequest.type, params).catch((err) => {
       // Don't return an error. Just return null (no info).
       return null;
     });
@@ -217,98 +435,471 @@ export class LspClient {
   }
 
   async getRenameEdits(
+    uri: string,
     code: string,
     position: Position,
     newName: string,
   ): Promise<WorkspaceEdit | null> {
-    let documentVersion = this._documentVersion;
-    if (this._documentText !== code) {
-      documentVersion = await this.updateTextDocument(code);
-    }
+    await this.syncTextDocument(uri, code);
 
     const params: RenameParams = {
       textDocument: {
-        uri: documentUri,
+        uri: this._toServerUri(uri),
       },
       position,
       newName,
     };
 
-    const result = await this._connection.sendRequest(RenameRequest.type, params).catch((err) => {
+    const result = await this._sendRequest(RenameRequest.type, params).catch((err) => {
       // Don't return an error. Just return null (no edits).
       return null;
     });
 
-    return result;
+    return result ? this._toClientWorkspaceEdit(result) : null;
   }
 
-  async getSignatureHelp(code: string, position: Position): Promise<SignatureHelp | null> {
-    let documentVersion = this._documentVersion;
-    if (this._documentText !== code) {
-      documentVersion = await this.updateTextDocument(code);
-    }
+  async getSignatureHelp(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<SignatureHelp | null> {
+    await this.syncTextDocument(uri, code);
 
     const params: SignatureHelpParams = {
       textDocument: {
-        uri: documentUri,
+        uri: this._toServerUri(uri),
       },
       position,
     };
 
-    const result = await this._connection
-      .sendRequest(SignatureHelpRequest.type, params)
-      .catch((err) => {
-        // Don't return an error. Just return null (no info).
-        return null;
-      });
+    const result = await this._sendRequest(SignatureHelpRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no info).
+      return null;
+    });
 
     return result;
   }
 
   async getCompletion(
+    uri: string,
     code: string,
     position: Position,
   ): Promise<CompletionList | CompletionItem[] | null> {
-    let documentVersion = this._documentVersion;
-    if (this._documentText !== code) {
-      documentVersion = await this.updateTextDocument(code);
-    }
+    await this.syncTextDocument(uri, code);
 
     const params: CompletionParams = {
       textDocument: {
-        uri: documentUri,
+        uri: this._toServerUri(uri),
       },
       position,
     };
 
-    const result = await this._connection
-      .sendRequest(CompletionRequest.type, params)
-      .catch((err) => {
-        // Don't return an error. Just return null (no info).
-        return null;
-      });
+    const result = await this._sendRequest(CompletionRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no info).
+      return null;
+    });
 
     return result;
   }
 
   async resolveCompletion(completionItem: CompletionItem): Promise<CompletionItem | null> {
-    const result = await this._connection
-      .sendRequest(CompletionResolveRequest.type, completionItem)
-      .catch((err) => {
+    const result = await this._sendRequest(CompletionResolveRequest.type, completionItem).catch(
+      (err) => {
         // Don't return an error. Just return null (no info).
         return null;
-      });
+      },
+    );
+
+    return result;
+  }
+
+  async getDefinition(uri: string, code: string, position: Position): Promise<Location[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: DefinitionParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      position,
+    };
+
+    const result = await this._sendRequest(DefinitionRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no locations).
+      return null;
+    });
+
+    return this._toClientLocations(result);
+  }
+
+  async getDeclaration(uri: string, code: string, position: Position): Promise<Location[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: DeclarationParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      position,
+    };
+
+    const result = await this._sendRequest(DeclarationRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no locations).
+      return null;
+    });
+
+    return this._toClientLocations(result);
+  }
+
+  async getTypeDefinition(uri: string, code: string, position: Position): Promise<Location[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: TypeDefinitionParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      position,
+    };
+
+    const result = await this._sendRequest(TypeDefinitionRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no locations).
+      return null;
+    });
+
+    return this._toClientLocations(result);
+  }
+
+  async getReferences(
+    uri: string,
+    code: string,
+    position: Position,
+    includeDeclaration: boolean,
+  ): Promise<Location[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: ReferenceParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      position,
+      context: {
+        includeDeclaration,
+      },
+    };
+
+    const result = await this._sendRequest(ReferencesRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no locations).
+      return null;
+    });
+
+    return this._toClientLocations(result);
+  }
+
+  async getDocumentHighlights(
+    uri: string,
+    code: string,
+    position: Position,
+  ): Promise<DocumentHighlight[] | null> {
+    await this.syncTextDocument(uri, code);
+
+    const params: DocumentHighlightParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      position,
+    };
+
+    const result = await this._sendRequest(DocumentHighlightRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no highlights).
+      return null;
+    });
 
     return result;
   }
 
+  // Returns the symbols (classes, functions, variables, etc.) declared in
+  // the document, organized hierarchically.
+  async getDocumentSymbols(uri: string, code: string): Promise<DocumentSymbol[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: DocumentSymbolParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+    };
+
+    const result = await this._sendRequest(DocumentSymbolRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no symbols).
+      return null;
+    });
+
+    // Flat symbol information shouldn't be returned because the client
+    // supports hierarchical symbols, and it refers to server URIs.
+    const symbols: (DocumentSymbol | SymbolInformation)[] = result ?? [];
+    return symbols.filter((symbol): symbol is DocumentSymbol => DocumentSymbol.is(symbol));
+  }
+
+  // Determines whether the language server provides code actions.
+  supportsCodeActions(): boolean {
+    return !!this._serverCapabilities.codeActionProvider;
+  }
+
+  // Determines whether the language server provides inlay hints.
+  supportsInlayHints(): boolean {
+    return !!this._serverCapabilities.inlayHintProvider;
+  }
+
+  // Returns inlay hints (e.g. inferred types and parameter names) for a range
+  // of the document, or null if the language server doesn't provide them.
+  async getInlayHints(uri: string, code: string, range: Range): Promise<InlayHint[] | null> {
+    if (!this._serverCapabilities.inlayHintProvider) {
+      return null;
+    }
+
+    await this.syncTextDocument(uri, code);
+
+    const params: InlayHintParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      range,
+    };
+
+    const result = await this._sendRequest(InlayHintRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no hints).
+      return null;
+    });
+
+    return result ? result.map((hint) => this._toClientInlayHint(hint)) : null;
+  }
+
+  // Returns the code actions for a range of the document. Only actions that
+  // edit the project's documents are returned. Commands are omitted because
+  // they are executed by the language server's editor extension, which the
+  // client doesn't have.
+  async getCodeActions(
+    uri: string,
+    code: string,
+    range: Range,
+    context: CodeActionContext,
+  ): Promise<CodeAction[]> {
+    await this.syncTextDocument(uri, code);
+
+    const params: CodeActionParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      range,
+      context,
+    };
+
+    const result = await this._sendRequest(CodeActionRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no actions).
+      return null;
+    });
+
+    const codeActions: CodeAction[] = [];
+    for (const action of result ?? []) {
+      if (!CodeAction.is(action) || !action.edit) {
+        continue;
+      }
+
+      const edit = this._toClientWorkspaceEdit(action.edit);
+      if (Object.keys(edit.changes ?? {}).length > 0 || (edit.documentChanges?.length ?? 0) > 0) {
+        codeActions.push({ ...action, edit, command: undefined });
+      }
+    }
+
+    return codeActions;
+  }
+
+  // Returns the legend used to interpret semantic tokens, or undefined if
+  // the language server doesn't provide semantic tokens.
+  getSemanticTokensLegend(): SemanticTokensLegend | undefined {
+    return this._serverCapabilities.semanticTokensProvider?.legend;
+  }
+
+  async getSemanticTokens(uri: string, code: string): Promise<SemanticTokens | null> {
+    if (!this._serverCapabilities.semanticTokensProvider?.full) {
+      return null;
+    }
+
+    await this.syncTextDocument(uri, code);
+
+    const params: SemanticTokensParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+    };
+
+    const result = await this._sendRequest(SemanticTokensRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no tokens).
+      return null;
+    });
+
+    return result;
+  }
+
+  // Returns the changes to the semantic tokens since the result with the
+  // specified ID. If the language server doesn't support deltas, the full
+  // set of tokens is returned instead.
+  async getSemanticTokensDelta(
+    uri: string,
+    code: string,
+    previousResultId: string,
+  ): Promise<SemanticTokens | SemanticTokensDelta | null> {
+    const full = this._serverCapabilities.semanticTokensProvider?.full;
+    if (typeof full !== "object" || !full.delta) {
+      return this.getSemanticTokens(uri, code);
+    }
+
+    await this.syncTextDocument(uri, code);
+
+    const params: SemanticTokensDeltaParams = {
+      textDocument: {
+        uri: this._toServerUri(uri),
+      },
+      previousResultId,
+    };
+
+    const result = await this._sendRequest(SemanticTokensDeltaRequest.type, params).catch((err) => {
+      // Don't return an error. Just return null (no tokens).
+      return null;
+    });
+
+    return result;
+  }
+
+  // Makes sure the language server has the specified text for the document,
+  // opening the document if necessary. Returns the current document version.
+  // The client version, if provided, identifies the text for subsequent
+  // incremental changes.
+  async syncTextDocument(uri: string, code: string, clientVersion?: number): Promise<number> {
+    const document = this._documents.get(uri);
+    const previousText = document?.text;
+    let documentVersion: number;
+
+    if (!document) {
+      documentVersion = await this._openTextDocument(uri, code);
+    } else if (document.text !== code) {
+      documentVersion = await this._updateTextDocument(uri, code);
+    } else {
+      documentVersion = document.version;
+    }
+
+    const updatedDocument = this._documents.get(uri);
+    if (updatedDocument && (clientVersion !== undefined || updatedDocument.text !== previousText)) {
+      updatedDocument.clientVersion = clientVersion;
+    }
+
+    return documentVersion;
+  }
+
+  // Applies changes made by the client to the document and forwards them to
+  // the language server. Returns false if the changes cannot be applied because
+  // the document is not in the state the client expects (e.g. its versions have
+  // diverged), in which case the client needs to resend the full text.
+  async applyTextDocumentChanges(
+    uri: string,
+    clientVersion: number,
+    changes: TextDocumentContentChangeEvent[],
+  ): Promise<boolean> {
+    if (changes.length === 0) {
+      return true;
+    }
+
+    const document = this._documents.get(uri);
+
+    // A full-content change doesn't depend on the previous text.
+    if (TextDocumentContentChangeEvent.isFull(changes[0])) {
+      const textDocument = TextDocument.create(uri, "python", 0, "");
+      TextDocument.update(textDocument, changes, clientVersion);
+      await this.syncTextDocument(uri, textDocument.getText(), clientVersion);
+      return true;
+    }
+
+    if (
+      !document ||
+      document.clientVersion === undefined ||
+      clientVersion <= document.clientVersion
+    ) {
+      logger.info(`Document ${uri} is out of sync with client version ${clientVersion}`);
+      return false;
+    }
+
+    const textDocument = TextDocument.create(uri, "python", document.version, document.text);
+    TextDocument.update(textDocument, changes, clientVersion);
+
+    document.clientVersion = clientVersion;
+    await this._updateTextDocument(uri, textDocument.getText(), changes);
+    return true;
+  }
+
+  // Returns the URIs of the documents that are open.
+  getOpenDocumentUris(): string[] {
+    return Array.from(this._documents.keys());
+  }
+
+  // Returns the current text of a document, or undefined if it's not open.
+  getDocumentText(uri: string): string | undefined {
+    return this._documents.get(uri)?.text;
+  }
+
+  // Writes a new document into the project directory (so other modules can
+  // import it) and opens it in the language server.
+  private async _openTextDocument(uri: string, code: string): Promise<number> {
+    const relativePath = getRelativeDocumentPath(uri);
+    if (relativePath === undefined) {
+      throw new Error(`Invalid document URI: ${uri}`);
+    }
+
+    const serverUri = this._toServerUri(uri);
+    const document: DocumentState = {
+      serverUri,
+      version: 1,
+      text: code,
+      pendingDiagRequests: new Map<number, DiagnosticRequest[]>(),
+      changeTime: Date.now(),
+    };
+    this._documents.set(uri, document);
+    updateLogContext({ uri, documentVersion: document.version });
+
+    const filePath = path.join(this._projectPath, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, code);
+
+    logger.info(`Opening text document ${uri}`);
+
+    await this._connection.sendNotification(
+      new NotificationType<DidOpenTextDocumentParams>("textDocument/didOpen"),
+      {
+        textDocument: {
+          uri: serverUri,
+          languageId: "python",
+          version: document.version,
+          text: code,
+        },
+      },
+    );
+
+    await this._notifyWatchedFileChanged(serverUri, FileChangeType.Created);
+
+    return document.version;
+  }
+
   // Sends a new version of the text document to the language server.
   // It bumps the document version and returns the new version number.
-  private async updateTextDocument(code: string): Promise<number> {
-    let documentVersion = ++this._documentVersion;
-    this._documentText = code;
+  // If the changes that produced the new text are known, only they are sent.
+  private async _updateTextDocument(
+    uri: string,
+    code: string,
+    changes?: TextDocumentContentChangeEvent[],
+  ): Promise<number> {
+    const document = this._documents.get(uri)!;
+    let documentVersion = ++document.version;
+    document.text = code;
+    document.changeTime ??= Date.now();
+    updateLogContext({ uri, documentVersion });
 
-    logger.info(`Updating text document to version ${documentVersion}`);
+    logger.info(`Updating text document ${uri} to version ${documentVersion}`);
 
     // Send the updated text to the language server.
     return this._connection
@@ -316,10 +907,10 @@ export class LspClient {
         new NotificationType<DidChangeTextDocumentParams>("textDocument/didChange"),
         {
           textDocument: {
-            uri: documentUri,
+            uri: document.serverUri,
             version: documentVersion,
           },
-          contentChanges: [
+          contentChanges: changes ?? [
             {
               text: code,
             },
@@ -336,25 +927,212 @@ export class LspClient {
       });
   }
 
-  // Cancels all pending requests.
+  // Closes a document in the language server and removes it from the project.
+  async closeTextDocument(uri: string) {
+    const document = this._documents.get(uri);
+    if (!document) {
+      return;
+    }
+
+    this._cancelDiagnosticRequests(document);
+    this._documents.delete(uri);
+
+    const relativePath = getRelativeDocumentPath(uri);
+    if (relativePath !== undefined) {
+      try {
+        fs.rmSync(path.join(this._projectPath, relativePath));
+      } catch {
+        // Ignore error.
+      }
+    }
+
+    await this._connection.sendNotification(
+      new NotificationType<DidCloseTextDocumentParams>("textDocument/didClose"),
+      {
+        textDocument: {
+          uri: document.serverUri,
+        },
+      },
+    );
+
+    await this._notifyWatchedFileChanged(document.serverUri, FileChangeType.Deleted);
+  }
+
+  private _notifyWatchedFileChanged(serverUri: string, type: FileChangeType) {
+    return this._connection.sendNotification(
+      new NotificationType<DidChangeWatchedFilesParams>("workspace/didChangeWatchedFiles"),
+      {
+        changes: [{ uri: serverUri, type }],
+      },
+    );
+  }
+
+  // Sends a request to the language server. If the server doesn't respond
+  // within the request timeout, the request is canceled and rejected.
+  private _sendRequest<P, R, E>(type: RequestType<P, R, E>, params: P): Promise<R> {
+    if (this._requestTimeout <= 0) {
+      return this._connection.sendRequest(type, params);
+    }
+
+    const cancellationSource = new CancellationTokenSource();
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        logger.error(`Request ${type.method} timed out after ${this._requestTimeout}ms`);
+        cancellationSource.cancel();
+        reject(new Error(`Request ${type.method} timed out`));
+      }, this._requestTimeout);
+
+      this._connection
+        .sendRequest(type, params, cancellationSource.token)
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timer);
+          cancellationSource.dispose();
+        });
+    });
+  }
+
+  // Cancels all pending requests and closes all open documents.
   cancelRequests() {
-    this._pendingDiagRequests.forEach((requestList) => {
+    const listeners = Array.from(this._listeners);
+    this._listeners.clear();
+    listeners.forEach((listener) => listener.onReset());
+
+    for (const uri of Array.from(this._documents.keys())) {
+      this.closeTextDocument(uri).catch((err) => {
+        logger.error(`Error closing text document: ${err}`);
+      });
+    }
+  }
+
+  private _cancelDiagnosticRequests(document: DocumentState) {
+    document.pendingDiagRequests.forEach((requestList) => {
       requestList.forEach((request) => {
         request.callback([], new Error("Request canceled"));
       });
     });
 
-    this._pendingDiagRequests.clear();
-    this._documentText = "";
-    this._documentDiags = undefined;
-    this._documentVersion = 1;
+    document.pendingDiagRequests.clear();
   }
 
-  private static _logServerData(data: any) {
-    logger.info(
-      `Logged from pyright language server: ${
-        typeof data === "string" ? data : data.toString("utf8")
-      }`,
-    );
+  private _findDocumentByServerUri(serverUri: string): DocumentState | undefined {
+    const clientUri = this._toClientUri(serverUri);
+    return clientUri ? this._documents.get(clientUri) : undefined;
+  }
+
+  // Converts a client document URI into a URI within the project directory.
+  private _toServerUri(uri: string): string {
+    return this._projectUri + new URL(uri).pathname;
+  }
+
+  // Converts a URI within the project directory back into a client document
+  // URI. Returns undefined for URIs outside of the project (e.g. typeshed).
+  private _toClientUri(serverUri: string): string | undefined {
+    const prefix = this._projectUri + "/";
+    if (!serverUri.startsWith(prefix)) {
+      return undefined;
+    }
+
+    return "file:///" + serverUri.substring(prefix.length);
+  }
+
+  // Converts locations returned by the language server into locations within
+  // client documents. Locations outside of the project (e.g. in typeshed stubs)
+  // are omitted because the client has no way to display them.
+  private _toClientLocations(result: Location | (Location | LocationLink)[] | null): Location[] {
+    if (!result) {
+      return [];
+    }
+
+    const locations: Location[] = [];
+    for (const location of Array.isArray(result) ? result : [result]) {
+      const serverUri = LocationLink.is(location) ? location.targetUri : location.uri;
+      const clientUri = this._toClientUri(serverUri);
+      if (clientUri) {
+        locations.push({
+          uri: clientUri,
+          range: LocationLink.is(location) ? location.targetSelectionRange : location.range,
+        });
+      }
+    }
+
+    return locations;
+  }
+
+  // Label parts can refer to locations (e.g. the declaration of a type),
+  // which need to be converted to client URIs or omitted.
+  private _toClientInlayHint(hint: InlayHint): InlayHint {
+    if (typeof hint.label === "string") {
+      return hint;
+    }
+
+    return {
+      ...hint,
+      label: hint.label.map((part) => {
+        if (!part.location) {
+          return part;
+        }
+
+        const [location] = this._toClientLocations(part.location);
+        return { ...part, location };
+      }),
+    };
+  }
+
+  private _toClientWorkspaceEdit(edit: WorkspaceEdit): WorkspaceEdit {
+    const result: WorkspaceEdit = {};
+
+    if (edit.changes) {
+      result.changes = {};
+      for (const serverUri of Object.keys(edit.changes)) {
+        const clientUri = this._toClientUri(serverUri);
+        if (clientUri) {
+          result.changes[clientUri] = edit.changes[serverUri];
+        }
+      }
+    }
+
+    if (edit.documentChanges) {
+      result.documentChanges = [];
+      for (const change of edit.documentChanges) {
+        if (!TextDocumentEdit.is(change)) {
+          continue;
+        }
+
+        const clientUri = this._toClientUri(change.textDocument.uri);
+        if (clientUri) {
+          result.documentChanges.push({
+            ...change,
+            textDocument: { ...change.textDocument, uri: clientUri },
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Logs output that the language server writes to stdout or stderr.
+  private static _logServerData(data: any, level: string) {
+    const text: string = typeof data === "string" ? data : data.toString("utf8");
+    logger.log(level, text.trimEnd(), { source: "languageServer" });
+  }
+}
+
+// Maps the type of a language server log message to a logging level.
+function getLogLevel(messageType: MessageType): string {
+  switch (messageType) {
+    case MessageType.Error:
+      return "error";
+
+    case MessageType.Warning:
+      return "warn";
+
+    case MessageType.Info:
+      return "info";
+
+    default:
+      return "debug";
   }
 }
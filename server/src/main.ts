@@ -6,9 +6,24 @@
 import bodyParser from "body-parser";
 import * as dotenv from "dotenv";
 import express, { NextFunction, Request, Response } from "express";
+import { AsyncResource } from "async_hooks";
 import * as path from "path";
 import routes from "./routes";
-import { logger } from "./logging";
+import { configureLogging, getRequestId, logger, runWithLogContext } from "./logging";
+import { Histogram, latencyBuckets } from "./metrics";
+import { attachLspBridge } from "./lspBridge";
+import {
+  configureSessionCapacity,
+  configureSessionLimits,
+  configureWarmPool,
+} from "./sessionManager";
+import { FileSnippetStore, configureSnippets } from "./snippetStore";
+
+const requestDurationHistogram = new Histogram(
+  "http_request_duration_seconds",
+  "Time taken to respond to HTTP requests, by method and route",
+  latencyBuckets,
+);
 
 try {
   // Load environment variables from ".env" file.
@@ -25,19 +40,49 @@ function startService() {
   const apiPort = process.env.PORT || 3000;
   const app = express();
 
+  configureLogging({
+    level: process.env.LOG_LEVEL || "info",
+    filePath: process.env.LOG_FILE || undefined,
+    maxFileSize: getIntegerEnvVar("LOG_FILE_MAX_SIZE", 10 * 1024 * 1024),
+    maxFiles: getIntegerEnvVar("LOG_FILE_MAX_FILES", 5),
+  });
+
+  // Middleware to tag everything logged while handling a request with
+  // the request's ID. The ID is also returned to the caller.
+  const requestContext = (req: Request, res: Response, next: NextFunction) => {
+    const requestId = getRequestId(req);
+    res.set("X-Request-Id", requestId);
+    runWithLogContext({ requestId }, next);
+  };
+
   // Middleware to log the time taken by each request
   const requestTimeLogger = (req: Request, res: Response, next: NextFunction) => {
     const start = Date.now();
 
-    res.on("finish", () => {
-      const duration = Date.now() - start;
-      console.log(`${req.method} ${req.originalUrl} took ${duration}ms`);
-    });
+    // Bind the listener so the entry is tagged with the request's context.
+    res.on(
+      "finish",
+      AsyncResource.bind(() => {
+        const duration = Date.now() - start;
+        logger.info(`${req.method} ${req.originalUrl} took ${duration}ms`, {
+          method: req.method,
+          url: req.originalUrl,
+          status: res.statusCode,
+          duration,
+        });
+
+        // Use the route pattern rather than the URL so session IDs don't
+        // end up in the labels.
+        const route = req.route ? req.baseUrl + req.route.path : "other";
+        requestDurationHistogram.observe(duration / 1000, { method: req.method, route });
+      }),
+    );
 
     next();
   };
 
   // Use the middleware globally.
+  app.use(requestContext);
   app.use(requestTimeLogger);
 
   app.use(bodyParser.json());
@@ -55,11 +100,59 @@ function startService() {
 
   app.use(express.static(path.join(root, "dist/webapp")));
 
+  // Links to saved snippets ("/s/:id") are handled here too; the web app
+  // loads the snippet through the API.
   app.get("*", (req, res) => {
     res.sendFile("dist/webapp/index.html", { root });
   });
 
-  app.listen(apiPort, () => {
+  const server = app.listen(apiPort, () => {
     logger.info(`API running on port ${apiPort}`);
   });
+
+  // Accept WebSocket connections that carry LSP traffic for a session.
+  attachLspBridge(server);
+
+  // Limit the resources that each language server can consume.
+  configureSessionLimits({
+    maxMemory: getIntegerEnvVar("SESSION_MAX_MEMORY", 1024),
+    requestTimeout: getIntegerEnvVar("SESSION_REQUEST_TIMEOUT", 20 * 1000),
+    maxBusyTime: getIntegerEnvVar("SESSION_MAX_BUSY_TIME", 60 * 1000),
+  });
+
+  // Limit the number of language servers that run at once.
+  configureSessionCapacity({
+    maxActiveSessions: getIntegerEnvVar("MAX_ACTIVE_SESSIONS", 32),
+    maxQueueLength: getIntegerEnvVar("SESSION_QUEUE_LENGTH", 64),
+    queueTimeout: getIntegerEnvVar("SESSION_QUEUE_TIMEOUT", 30 * 1000),
+  });
+
+  // Snippets are saved to the local filesystem by default.
+  configureSnippets({
+    store: new FileSnippetStore(path.resolve(process.env.SNIPPET_DIR || "snippets")),
+    maxSize: getIntegerEnvVar("SNIPPET_MAX_SIZE", 64 * 1024),
+  });
+
+  // Start language servers ahead of demand so new sessions start quickly.
+  configureWarmPool({
+    size: getIntegerEnvVar("WARM_POOL_SIZE", 2),
+    refillDelay: getIntegerEnvVar("WARM_POOL_REFILL_DELAY", 1000),
+  });
+}
+
+// Reads a non-negative integer value from an environment variable,
+// falling back to the default if it is missing or invalid.
+function getIntegerEnvVar(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+
+  const intValue = Number(value);
+  if (!Number.isInteger(intValue) || intValue < 0) {
+    logger.error(`Ignoring invalid value for ${name}: ${value}`);
+    return defaultValue;
+  }
+
+  return intValue;
 }
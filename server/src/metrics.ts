@@ -0,0 +1,165 @@
+/*
+ * Copyright (c) Eric Traut
+ * Collects metrics about the service and renders them in the Prometheus
+ * text exposition format.
+ */
+
+type Labels = { [name: string]: string };
+
+interface Metric {
+  render(): string[];
+}
+
+// All metrics that have been created, in the order they were created.
+const metrics: Metric[] = [];
+
+const metricNamePrefix = "pyright_playground_";
+
+// A value that only increases, optionally partitioned by labels.
+export class Counter implements Metric {
+  private _values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = getLabelsKey(labels);
+    const entry = this._values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this._values.set(key, { labels, value });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this._values.get(getLabelsKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const name = metricNamePrefix + this.name;
+    const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} counter`];
+
+    this._values.forEach((entry) => {
+      lines.push(`${name}${formatLabels(entry.labels)} ${entry.value}`);
+    });
+
+    // Report a zero value rather than omitting the counter entirely.
+    if (this._values.size === 0) {
+      lines.push(`${name} 0`);
+    }
+
+    return lines;
+  }
+}
+
+// A value that can go up and down. It's read when the metrics are rendered.
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly _getValue: () => number,
+  ) {
+    metrics.push(this);
+  }
+
+  get(): number {
+    return this._getValue();
+  }
+
+  render(): string[] {
+    const name = metricNamePrefix + this.name;
+    return [`# HELP ${name} ${this.help}`, `# TYPE ${name} gauge`, `${name} ${this.get()}`];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+// Counts observed values in buckets, optionally partitioned by labels.
+export class Histogram implements Metric {
+  private _series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    // Upper bounds of the buckets, in increasing order.
+    readonly buckets: number[],
+  ) {
+    metrics.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}) {
+    const key = getLabelsKey(labels);
+    let series = this._series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this._series.set(key, series);
+    }
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        series!.bucketCounts[index]++;
+      }
+    });
+
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const name = metricNamePrefix + this.name;
+    const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} histogram`];
+
+    this._series.forEach((series) => {
+      this.buckets.forEach((bucket, index) => {
+        const labels = formatLabels({ ...series.labels, le: bucket.toString() });
+        lines.push(`${name}_bucket${labels} ${series.bucketCounts[index]}`);
+      });
+
+      lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+      lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+    });
+
+    return lines;
+  }
+}
+
+// Bucket bounds (in seconds) suitable for request latencies.
+export const latencyBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Renders all metrics in the Prometheus text exposition format.
+export function renderMetrics(): string {
+  return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+function getLabelsKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]]),
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const names = Object.keys(labels);
+  if (names.length === 0) {
+    return "";
+  }
+
+  const pairs = names.map((name) => {
+    const value = labels[name].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+    return `${name}="${value}"`;
+  });
+
+  return `{${pairs.join(",")}}`;
+}
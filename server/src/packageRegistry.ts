@@ -0,0 +1,109 @@
+/*
+ * Copyright (c) Eric Traut
+ * Locates the library packages (stub packages or packages that include
+ * inline types) that are installed locally and can be made available to
+ * the code in a session.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logging";
+
+export interface LibraryPackage {
+  // Name used to select the package (e.g. "attrs").
+  name: string;
+
+  // Version of the package if it could be determined.
+  version?: string;
+
+  // Directory that contains the package's files, laid out as they would be
+  // within a "site-packages" directory.
+  dirPath: string;
+}
+
+// Directory that contains the packages unless overridden by the PACKAGES_DIR
+// environment variable. Each subdirectory is the install target of a single
+// package, for example "pip install --no-deps --target packages/attrs attrs".
+const defaultPackagesDirPath = "packages";
+
+// The installed packages are discovered the first time they are needed.
+// The server must be restarted to pick up newly installed packages.
+let installedPackages: LibraryPackage[] | undefined;
+
+// Returns all installed packages, sorted by name.
+export function getLibraryPackages(): LibraryPackage[] {
+  if (!installedPackages) {
+    installedPackages = findInstalledPackages();
+  }
+
+  return installedPackages;
+}
+
+export function getLibraryPackage(name: string): LibraryPackage | undefined {
+  return getLibraryPackages().find((libraryPackage) => libraryPackage.name === name);
+}
+
+export function isLibraryPackageInstalled(name: string) {
+  return getLibraryPackage(name) !== undefined;
+}
+
+function findInstalledPackages(): LibraryPackage[] {
+  const packagesDirPath = path.resolve(
+    process.cwd(),
+    process.env.PACKAGES_DIR || defaultPackagesDirPath,
+  );
+
+  let entries: fs.Dirent[] = [];
+  try {
+    entries = fs.readdirSync(packagesDirPath, { withFileTypes: true });
+  } catch (e) {
+    // There are no installed packages.
+  }
+
+  const packages = entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => {
+      const dirPath = path.join(packagesDirPath, entry.name);
+      return { name: entry.name, version: getPackageVersion(dirPath), dirPath };
+    });
+
+  packages.sort((a, b) => a.name.localeCompare(b.name));
+
+  logger.info(`Found library packages: ${packages.map((p) => p.name).join(", ")}`);
+  return packages;
+}
+
+// Determines the version of the package from the name of the metadata
+// directory that pip writes (e.g. "attrs-23.2.0.dist-info"). The directory
+// can contain other distributions that the package needs, so the one whose
+// name matches the package is preferred.
+function getPackageVersion(dirPath: string): string | undefined {
+  let version: string | undefined;
+
+  try {
+    for (const fileName of fs.readdirSync(dirPath)) {
+      const match = fileName.match(/^([^-]+)-(.+)\.dist-info$/);
+      if (!match) {
+        continue;
+      }
+
+      if (
+        normalizeDistributionName(match[1]) === normalizeDistributionName(path.basename(dirPath))
+      ) {
+        return match[2];
+      }
+
+      version = version ?? match[2];
+    }
+  } catch (e) {
+    // Fall through.
+  }
+
+  return version;
+}
+
+// Normalizes a distribution name as described by PEP 503 (except that pip
+// writes "_" in place of "-" in the names of metadata directories).
+function normalizeDistributionName(name: string) {
+  return name.toLowerCase().replace(/[-_.]+/g, "_");
+}
@@ -9,27 +9,79 @@ import {
   getDiagnostics,
   createSession,
   closeSession,
+  closeDocument,
   getHoverInfo,
   getSignatureHelp,
   getCompletion,
   resolveCompletion,
   getRenameEdits,
+  getDefinition,
+  getDeclaration,
+  getTypeDefinition,
+  getReferences,
+  getDocumentHighlights,
+  getSemanticTokens,
+  getSemanticTokensDelta,
+  getCodeActions,
+  getDocumentSymbols,
+  getInlayHints,
+  getVersions,
+  getConfigSchema,
+  getPackages,
+  getStatus,
+  getMetrics,
+  createSnippet,
+  getSnippet,
 } from "./service";
 
 const router = express.Router();
 export default router;
 
+// Origins that are allowed to access the API.
+export const allowedOrigins: (string | RegExp)[] = [
+  /^http:\/\/localhost(:\d+)?$/,
+  "https://pyright-playground.azurewebsites.net",
+  "https://pyright-play.net",
+];
+
 // Configure CORS middleware.
 const corsOptions: CorsOptions = {
-  origin: [
-    /http:\/\/localhost\:*/,
-    "https://pyright-playground.azurewebsites.net",
-    "https://pyright-play.net",
-  ],
+  origin: allowedOrigins,
+  // Clients need to read these headers when the server is at capacity
+  // and to report the ID of a failed request.
+  exposedHeaders: ["Retry-After", "X-Request-Id"],
 };
 
 router.use(cors(corsOptions));
 
+router.get("/status", (req, res) => {
+  getStatus(req, res);
+});
+
+router.get("/metrics", (req, res) => {
+  getMetrics(req, res);
+});
+
+router.get("/versions", (req, res) => {
+  getVersions(req, res);
+});
+
+router.get("/configschema", (req, res) => {
+  getConfigSchema(req, res);
+});
+
+router.get("/packages", (req, res) => {
+  getPackages(req, res);
+});
+
+router.post("/snippets", (req, res) => {
+  createSnippet(req, res);
+});
+
+router.get("/snippets/:id", (req, res) => {
+  getSnippet(req, res);
+});
+
 router.post("/session", (req, res) => {
   createSession(req, res);
 });
@@ -38,6 +90,10 @@ router.delete("/session/:sid", (req, res) => {
   closeSession(req, res);
 });
 
+router.post("/session/:sid/closedocument", (req, res) => {
+  closeDocument(req, res);
+});
+
 router.post("/session/:sid/diagnostics", (req, res) => {
   getDiagnostics(req, res);
 });
@@ -50,6 +106,46 @@ router.post("/session/:sid/rename", (req, res) => {
   getRenameEdits(req, res);
 });
 
+router.post("/session/:sid/definition", (req, res) => {
+  getDefinition(req, res);
+});
+
+router.post("/session/:sid/declaration", (req, res) => {
+  getDeclaration(req, res);
+});
+
+router.post("/session/:sid/typedefinition", (req, res) => {
+  getTypeDefinition(req, res);
+});
+
+router.post("/session/:sid/references", (req, res) => {
+  getReferences(req, res);
+});
+
+router.post("/session/:sid/highlight", (req, res) => {
+  getDocumentHighlights(req, res);
+});
+
+router.post("/session/:sid/semantictokens", (req, res) => {
+  getSemanticTokens(req, res);
+});
+
+router.post("/session/:sid/semantictokensdelta", (req, res) => {
+  getSemanticTokensDelta(req, res);
+});
+
+router.post("/session/:sid/documentsymbols", (req, res) => {
+  getDocumentSymbols(req, res);
+});
+
+router.post("/session/:sid/inlayhints", (req, res) => {
+  getInlayHints(req, res);
+});
+
+router.post("/session/:sid/codeactions", (req, res) => {
+  getCodeActions(req, res);
+});
+
 router.post("/session/:sid/signature", (req, res) => {
   getSignatureHelp(req, res);
 });
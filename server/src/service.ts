@@ -7,7 +7,20 @@ import { Request, Response } from "express";
 import * as SessionManager from "./sessionManager";
 import { Session, SessionOptions } from "./session";
 import { CompletionItem } from "vscode-languageserver";
-import { logger } from "./logging";
+import { logger, updateLogContext } from "./logging";
+import { renderMetrics } from "./metrics";
+import { defaultDocumentUri, isValidDocumentUri } from "./lspClient";
+import * as SnippetStore from "./snippetStore";
+import { InvalidConfigFileError, parseConfigFile } from "./configFile";
+import * as ConfigSchema from "./configSchema";
+import { getLibraryPackages, isLibraryPackageInstalled } from "./packageRegistry";
+import {
+  getDefaultLanguageServerVersion,
+  getLanguageServerVersion,
+  getLanguageServerVersions,
+  isLanguageServerVersionInstalled,
+  providesCodeActionEdits,
+} from "./versionRegistry";
 import { z } from "zod";
 
 // Zod schemas for validation
@@ -16,16 +29,76 @@ const positionSchema = z.object({
   character: z.number(),
 });
 
+const rangeSchema = z.object({
+  start: positionSchema,
+  end: positionSchema,
+});
+
+const documentUriSchema = z.string().refine(isValidDocumentUri, {
+  message: "Invalid document URI",
+});
+
 const codeWithOptionsSchema = z.object({
+  uri: documentUriSchema.default(defaultDocumentUri),
   code: z.string(),
   position: positionSchema.optional(),
   newName: z.string().optional(),
+  previousResultId: z.string().optional(),
+  range: rangeSchema.optional(),
+  context: z
+    .object({
+      includeDeclaration: z.boolean(),
+    })
+    .optional(),
 });
 
 const sessionOptionsSchema = z.object({
-  typeCheckingMode: z.literal("strict").optional(),
-  configOverrides: z.record(z.boolean()).optional(),
+  pyrightVersion: z
+    .string()
+    .refine(isLanguageServerVersionInstalled, {
+      message: "Language server version is not installed",
+    })
+    .optional(),
+  typeCheckingMode: z.enum(["strict", "standard", "basic", "off"]).optional(),
+  pythonVersion: z
+    .string()
+    .regex(/^3\.\d{1,2}$/)
+    .optional(),
+  pythonPlatform: z.enum(["All", "Linux", "Windows", "Darwin"]).optional(),
+  configOverrides: z
+    .record(z.union([z.boolean(), z.enum(["none", "information", "warning", "error"])]))
+    .optional(),
+  configFile: z.object({ format: z.enum(["json", "toml"]), text: z.string() }).optional(),
+  packages: z
+    .array(
+      z.string().refine(isLibraryPackageInstalled, {
+        message: "Library package is not installed",
+      }),
+    )
+    .optional(),
   code: z.string().optional(),
+  files: z.record(documentUriSchema, z.string()).optional(),
+});
+
+const documentSchema = z.object({
+  uri: documentUriSchema,
+});
+
+const codeActionsSchema = z.object({
+  uri: documentUriSchema.default(defaultDocumentUri),
+  code: z.string(),
+  range: rangeSchema,
+  context: z.object({
+    diagnostics: z.array(
+      z
+        .object({
+          range: rangeSchema,
+          message: z.string(),
+        })
+        .passthrough(),
+    ),
+    only: z.array(z.string()).optional(),
+  }),
 });
 
 const completionItemSchema = z.object({
@@ -36,8 +109,116 @@ const completionItemSchema = z.object({
     .passthrough(),
 });
 
+// The server doesn't interpret the settings of a snippet. The client tags
+// snippets with the version of the format it used to save them.
+const snippetSchema = z.object({
+  version: z.number().int(),
+  code: z.string(),
+  extraFiles: z.record(z.string()).optional(),
+  settings: z.object({}).passthrough(),
+  editorSettings: z.object({}).passthrough().optional(),
+});
+
 type CodeWithOptions = z.infer<typeof codeWithOptionsSchema>;
 
+// Returns a summary of the state of the service.
+export function getStatus(req: Request, res: Response) {
+  res.status(200).json({
+    uptime: Math.round(process.uptime()),
+    ...SessionManager.getStatus(),
+  });
+}
+
+// Returns metrics about the service in the Prometheus text format.
+export function getMetrics(req: Request, res: Response) {
+  res.status(200).type("text/plain; version=0.0.4").send(renderMetrics());
+}
+
+// Returns the language server versions that can be selected for a session.
+export function getVersions(req: Request, res: Response) {
+  const versions = getLanguageServerVersions().map((version) => {
+    return { id: version.id, name: version.name, version: version.version };
+  });
+
+  res.status(200).json({ defaultVersion: getDefaultLanguageServerVersion()?.id, versions });
+}
+
+// Returns the configuration settings supported by a language server
+// version (the default version unless "pyrightVersion" is specified).
+export function getConfigSchema(req: Request, res: Response) {
+  const pyrightVersion = req.query.pyrightVersion;
+  const languageServer = getLanguageServerVersion(
+    typeof pyrightVersion === "string" ? pyrightVersion : undefined,
+  );
+  if (!languageServer) {
+    res.status(400).json({ message: "Language server version is not installed" });
+    return;
+  }
+
+  ConfigSchema.getConfigSchema(languageServer)
+    .then((schema) => {
+      if (!schema) {
+        res.status(404).json({ message: "Configuration schema is not available" });
+        return;
+      }
+
+      res.status(200).json(schema);
+    })
+    .catch((err) => {
+      logger.error(`getConfigSchema returning a 500: ${err}`);
+      res.status(500).json({ message: "An unexpected error occurred" });
+    });
+}
+
+// Returns the library packages that can be made available to a session.
+export function getPackages(req: Request, res: Response) {
+  const packages = getLibraryPackages().map((libraryPackage) => {
+    return { name: libraryPackage.name, version: libraryPackage.version };
+  });
+
+  res.status(200).json({ packages });
+}
+
+// Saves a snippet so it can be shared and returns its ID.
+export function createSnippet(req: Request, res: Response) {
+  const parsedBody = snippetSchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    res.status(400).json({ message: parsedBody.error.message });
+    return;
+  }
+
+  SnippetStore.saveSnippet(JSON.stringify(parsedBody.data))
+    .then((id) => {
+      res.status(200).json({ id });
+    })
+    .catch((err) => {
+      if (err instanceof SnippetStore.SnippetTooLargeError) {
+        res.status(413).json({ message: err.message });
+        return;
+      }
+
+      logger.error(`createSnippet returning a 500: ${err}`);
+      res.status(500).json({ message: "An unexpected error occurred" });
+    });
+}
+
+// Returns the contents of a saved snippet.
+export function getSnippet(req: Request, res: Response) {
+  SnippetStore.getSnippet(req.params.id)
+    .then((content) => {
+      if (content === undefined) {
+        res.status(404).json({ message: "Unknown snippet ID" });
+        return;
+      }
+
+      res.status(200).type("application/json").send(content);
+    })
+    .catch((err) => {
+      logger.error(`getSnippet returning a 500: ${err}`);
+      res.status(500).json({ message: "An unexpected error occurred" });
+    });
+}
+
 // Creates a new language server session and returns its ID.
 export function createSession(req: Request, res: Response) {
   const sessionOptions = validateSessionOptions(req, res);
@@ -45,11 +226,45 @@ export function createSession(req: Request, res: Response) {
     return;
   }
 
-  SessionManager.createSession(sessionOptions)
+  // Stop waiting for a session if the client goes away.
+  const abortController = new AbortController();
+  res.on("close", () => {
+    abortController.abort();
+  });
+
+  SessionManager.createSession(sessionOptions, abortController.signal)
     .then((sessionId) => {
-      res.status(200).json({ sessionId });
+      updateLogContext({ sessionId });
+
+      // The client needs the legend to interpret the semantic tokens
+      // returned by this session's language server. It also needs to know
+      // which optional features are available so it can tell the user.
+      const session = SessionManager.getSessionById(sessionId);
+      const langClient = session?.langClient;
+      const semanticTokensLegend = langClient?.getSemanticTokensLegend();
+      const supportsInlayHints = langClient?.supportsInlayHints() ?? false;
+      const supportsCodeActions =
+        !!session?.langClient?.supportsCodeActions() &&
+        providesCodeActionEdits(session.languageServer);
+      res.status(200).json({
+        sessionId,
+        semanticTokensLegend,
+        supportsInlayHints,
+        supportsCodeActions,
+      });
     })
     .catch((err) => {
+      if (err instanceof SessionManager.SessionCapacityError) {
+        res.set("Retry-After", err.retryAfter.toString());
+        res.status(503).json({ message: err.message });
+        return;
+      }
+
+      if (err instanceof SessionManager.VersionNotInstalledError) {
+        res.status(400).json({ message: err.message });
+        return;
+      }
+
       logger.error(`createNewSession returning a 500: ${err}`);
       res.status(500).json({ message: err || "An unexpected error occurred" });
     });
@@ -65,6 +280,32 @@ export function closeSession(req: Request, res: Response) {
   res.status(200).json({});
 }
 
+// Closes a document within a session and removes it from the
+// session's project.
+export function closeDocument(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const result = documentSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: result.error.message });
+    return;
+  }
+
+  langClient
+    .closeTextDocument(result.data.uri)
+    .then(() => {
+      res.status(200).json({});
+    })
+    .catch((err) => {
+      logger.error(`closeDocument returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
 // Given some Python code and associated options, returns
 // a list of diagnostics.
 export function getDiagnostics(req: Request, res: Response) {
@@ -80,11 +321,18 @@ export function getDiagnostics(req: Request, res: Response) {
   }
 
   langClient
-    .getDiagnostics(codeWithOptions.code)
+    .getDiagnostics(codeWithOptions.uri, codeWithOptions.code)
     .then((diagnostics) => {
       res.status(200).json({ diagnostics });
     })
     .catch((err) => {
+      // The request is canceled if the language server crashes while
+      // analyzing the code.
+      if (SessionManager.isSessionCrashed(session.id)) {
+        sendSessionCrashedResponse(res);
+        return;
+      }
+
       logger.error(`getDiagnostics returning a 500: ${err}`);
       res.status(500).json({ message: err || "An unexpected error occurred" });
     });
@@ -105,7 +353,7 @@ export function getHoverInfo(req: Request, res: Response) {
   }
 
   langClient
-    .getHoverInfo(codeWithOptions.code, codeWithOptions.position!)
+    .getHoverInfo(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
     .then((hover) => {
       res.status(200).json(hover);
     })
@@ -130,7 +378,12 @@ export function getRenameEdits(req: Request, res: Response) {
   }
 
   langClient
-    .getRenameEdits(codeWithOptions.code, codeWithOptions.position!, codeWithOptions.newName ?? "")
+    .getRenameEdits(
+      codeWithOptions.uri,
+      codeWithOptions.code,
+      codeWithOptions.position!,
+      codeWithOptions.newName ?? "",
+    )
     .then((edits) => {
       res.status(200).json(edits);
     })
@@ -140,6 +393,265 @@ export function getRenameEdits(req: Request, res: Response) {
     });
 }
 
+// Given some Python code and a position within that code, returns the
+// locations of the definition of the symbol at that position.
+export function getDefinition(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["position"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getDefinition(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
+    .then((locations) => {
+      res.status(200).json(locations);
+    })
+    .catch((err) => {
+      logger.error(`getDefinition returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and a position within that code, returns the
+// locations of the declaration of the symbol at that position.
+export function getDeclaration(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["position"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getDeclaration(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
+    .then((locations) => {
+      res.status(200).json(locations);
+    })
+    .catch((err) => {
+      logger.error(`getDeclaration returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and a position within that code, returns the
+// locations of the definition of the type of the symbol at that position.
+export function getTypeDefinition(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["position"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getTypeDefinition(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
+    .then((locations) => {
+      res.status(200).json(locations);
+    })
+    .catch((err) => {
+      logger.error(`getTypeDefinition returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and a position within that code, returns the
+// locations of all references to the symbol at that position.
+export function getReferences(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["position"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getReferences(
+      codeWithOptions.uri,
+      codeWithOptions.code,
+      codeWithOptions.position!,
+      codeWithOptions.context?.includeDeclaration ?? true,
+    )
+    .then((locations) => {
+      res.status(200).json(locations);
+    })
+    .catch((err) => {
+      logger.error(`getReferences returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and a position within that code, returns the
+// ranges within the code that refer to the symbol at that position.
+export function getDocumentHighlights(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["position"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getDocumentHighlights(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
+    .then((highlights) => {
+      res.status(200).json(highlights);
+    })
+    .catch((err) => {
+      logger.error(`getDocumentHighlights returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code, returns semantic tokens for the code.
+export function getSemanticTokens(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getSemanticTokens(codeWithOptions.uri, codeWithOptions.code)
+    .then((tokens) => {
+      res.status(200).json(tokens);
+    })
+    .catch((err) => {
+      logger.error(`getSemanticTokens returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and the ID of a previous semantic tokens result,
+// returns the edits to apply to the previous tokens.
+export function getSemanticTokensDelta(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["previousResultId"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getSemanticTokensDelta(
+      codeWithOptions.uri,
+      codeWithOptions.code,
+      codeWithOptions.previousResultId!,
+    )
+    .then((tokens) => {
+      res.status(200).json(tokens);
+    })
+    .catch((err) => {
+      logger.error(`getSemanticTokensDelta returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code, returns the symbols declared within it.
+export function getDocumentSymbols(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getDocumentSymbols(codeWithOptions.uri, codeWithOptions.code)
+    .then((symbols) => {
+      res.status(200).json(symbols);
+    })
+    .catch((err) => {
+      logger.error(`getDocumentSymbols returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code and a range within that code, returns inlay hints
+// for the range.
+export function getInlayHints(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const codeWithOptions = validateCodeWithOptions(req, res, ["range"]);
+  if (!codeWithOptions) {
+    return;
+  }
+
+  langClient
+    .getInlayHints(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.range!)
+    .then((hints) => {
+      res.status(200).json(hints);
+    })
+    .catch((err) => {
+      logger.error(`getInlayHints returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
+// Given some Python code, a range within that code and the diagnostics
+// reported for the range, returns code actions (such as quick fixes).
+export function getCodeActions(req: Request, res: Response) {
+  const session = validateSession(req, res);
+  const langClient = session?.langClient;
+  if (!langClient) {
+    return;
+  }
+
+  const result = codeActionsSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: result.error.message });
+    return;
+  }
+
+  const { uri, code, range, context } = result.data;
+  langClient
+    .getCodeActions(uri, code, range, context)
+    .then((codeActions) => {
+      res.status(200).json(codeActions);
+    })
+    .catch((err) => {
+      logger.error(`getCodeActions returning a 500: ${err}`);
+      res.status(500).json({ message: err || "An unexpected error occurred" });
+    });
+}
+
 export function getSignatureHelp(req: Request, res: Response) {
   const session = validateSession(req, res);
   const langClient = session?.langClient;
@@ -153,7 +665,7 @@ export function getSignatureHelp(req: Request, res: Response) {
   }
 
   langClient
-    .getSignatureHelp(codeWithOptions.code, codeWithOptions.position!)
+    .getSignatureHelp(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
     .then((signatureHelp) => {
       res.status(200).json(signatureHelp);
     })
@@ -176,7 +688,7 @@ export function getCompletion(req: Request, res: Response) {
   }
 
   langClient
-    .getCompletion(codeWithOptions.code, codeWithOptions.position!)
+    .getCompletion(codeWithOptions.uri, codeWithOptions.code, codeWithOptions.position!)
     .then((completionList) => {
       res.status(200).json(completionList);
     })
@@ -218,13 +730,28 @@ function validateSessionOptions(req: Request, res: Response): SessionOptions | u
     return undefined;
   }
 
+  // Report a malformed configuration file in a way the client can show to
+  // the user rather than retrying.
+  if (result.data.configFile) {
+    try {
+      parseConfigFile(result.data.configFile);
+    } catch (err) {
+      if (!(err instanceof InvalidConfigFileError)) {
+        throw err;
+      }
+
+      res.status(400).json({ message: err.message, code: "invalidConfigFile" });
+      return undefined;
+    }
+  }
+
   return result.data;
 }
 
 function validateCodeWithOptions(
   req: Request,
   res: Response,
-  requiredOptions: ("position" | "newName")[] = [],
+  requiredOptions: ("position" | "newName" | "previousResultId" | "range")[] = [],
 ): CodeWithOptions | undefined {
   const result = codeWithOptionsSchema.safeParse(req.body);
   if (!result.success) {
@@ -236,6 +763,8 @@ function validateCodeWithOptions(
   const missingFields = requiredOptions.filter((option) => {
     if (option === "position") return !result.data.position;
     if (option === "newName") return !result.data.newName;
+    if (option === "previousResultId") return !result.data.previousResultId;
+    if (option === "range") return !result.data.range;
     return false;
   });
 
@@ -258,9 +787,23 @@ function validateSession(req: Request, res: Response): Session | undefined {
 
   const session = SessionManager.getSessionById(sessionId);
   if (!session?.langClient) {
-    res.status(400).json({ message: "Unknown session ID" });
+    if (SessionManager.isSessionCrashed(sessionId)) {
+      sendSessionCrashedResponse(res);
+    } else {
+      res.status(400).json({ message: "Unknown session ID" });
+    }
     return undefined;
   }
 
+  updateLogContext({ sessionId });
   return session;
 }
+
+// Tells the client that the session's language server crashed. The client
+// should create a new session and send its documents again.
+function sendSessionCrashedResponse(res: Response) {
+  res.status(410).json({
+    message: "The language server for this session crashed",
+    code: "sessionCrashed",
+  });
+}
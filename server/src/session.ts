@@ -7,13 +7,53 @@
 
 import { ChildProcess } from "node:child_process";
 import { LspClient } from "./lspClient";
+import { LanguageServerVersion } from "./versionRegistry";
 
 export type SessionId = string;
 
+export type TypeCheckingMode = "strict" | "standard" | "basic" | "off";
+
+// Severity levels that can be assigned to a diagnostic rule.
+export type DiagnosticRuleSeverity = "none" | "information" | "warning" | "error";
+
+export type PythonPlatform = "All" | "Linux" | "Windows" | "Darwin";
+
+// A configuration file supplied by the user. The "json" format is the
+// contents of a pyrightconfig.json file, and the "toml" format is the
+// contents of a pyproject.toml file with a [tool.pyright] section.
+export interface ConfigFile {
+  format: "json" | "toml";
+  text: string;
+}
+
 export interface SessionOptions {
-  typeCheckingMode?: string;
-  configOverrides?: { [name: string]: boolean };
+  // ID of the language server version (e.g. "pyright@1.1.393" or
+  // "basedpyright@1.26.0"). Defaults to the bundled version of pyright.
+  pyrightVersion?: string;
+
+  // Defaults to "standard".
+  typeCheckingMode?: TypeCheckingMode;
+  // Version of Python (e.g. "3.12") and platform assumed when evaluating
+  // the code. If not specified, the server's defaults are used.
+  pythonVersion?: string;
+  pythonPlatform?: PythonPlatform;
+
+  // Values of individual configuration settings. Diagnostic rules accept
+  // a severity level, and other settings accept a boolean.
+  configOverrides?: { [name: string]: boolean | DiagnosticRuleSeverity };
+
+  // Settings in this file take precedence over the ones above, except for
+  // those the playground enforces to sandbox the language server.
+  configFile?: ConfigFile;
+
+  // Names of installed library packages to make available to the code.
+  packages?: string[];
+
   code?: string;
+
+  // Initial contents of the documents in the session, indexed by URI.
+  // If "code" is also specified, it's used for the default document.
+  files?: { [uri: string]: string };
 }
 
 export interface Session {
@@ -23,6 +63,9 @@ export interface Session {
   // Path to temp directory that contains the "project" for this session.
   tempDirPath: string;
 
+  // Language server package that runs the session.
+  languageServer: LanguageServerVersion;
+
   // Child process running the language server for this session.
   langServerProcess?: ChildProcess;
 
@@ -34,4 +77,18 @@ export interface Session {
 
   // Options associated with the session.
   options?: SessionOptions;
+
+  // CPU usage of the language server most recently sampled by the watchdog.
+  cpuSample?: CpuUsageSample;
+}
+
+export interface CpuUsageSample {
+  // Total CPU time (in ms) consumed by the process.
+  cpuTime: number;
+
+  // Time at which the sample was taken.
+  sampleTime: number;
+
+  // Time since which the process has been continuously busy, if it is.
+  busySince?: number;
 }
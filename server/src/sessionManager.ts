@@ -9,9 +9,17 @@ import { fork } from "node:child_process";
 import * as os from "os";
 import * as path from "path";
 import { v4 as uuid } from "uuid";
-import { LspClient } from "./lspClient";
-import { Session, SessionId, SessionOptions } from "./session";
-import { logger } from "./logging";
+import { LspClient, defaultDocumentUri } from "./lspClient";
+import { PythonPlatform, Session, SessionId, SessionOptions, TypeCheckingMode } from "./session";
+import { logger, runWithLogContext } from "./logging";
+import { Counter, Gauge } from "./metrics";
+import { parseConfigFile, PyrightConfig } from "./configFile";
+import { getLibraryPackage } from "./packageRegistry";
+import {
+  LanguageServerVersion,
+  getDefaultLanguageServerVersion,
+  getLanguageServerVersion,
+} from "./versionRegistry";
 
 // Map of active sessions indexed by ID
 const activeSessions = new Map<SessionId, Session>();
@@ -27,13 +35,188 @@ const maxSessionLifetime = 1 * 60 * 1000; // 1 minute
 // based on whatever version of Python happens to be installed in
 // the container it's running in.
 const defaultPythonVersion = "3.13";
-const defaultPythonPlatform = "All";
+const defaultPythonPlatform: PythonPlatform = "All";
 
 // Active lifetime timer for harvesting old sessions.
 let lifetimeTimer: NodeJS.Timeout | undefined;
 
 const maxInactiveSessionCount = 64;
 
+// Directory (relative to the project root) that contains stub files
+// supplied by the client.
+const stubsDirName = "stubs";
+
+// Settings in a user-supplied configuration file that are ignored because
+// they refer to paths on the server, which would let a session analyze
+// files outside of its project directory. This includes "extends", which
+// would load another configuration file whose settings aren't filtered.
+const ignoredConfigFileSettings = [
+  "extends",
+  "include",
+  "exclude",
+  "extraPaths",
+  "typeshedPath",
+  "executionEnvironments",
+];
+
+export interface WarmPoolOptions {
+  // Number of default-configured sessions to keep initialized.
+  size: number;
+
+  // Time (in ms) to wait before replacing a session that was taken
+  // from the pool or that exited unexpectedly.
+  refillDelay: number;
+}
+
+// Sessions with the default configuration that were started ahead of demand
+// so new sessions don't need to wait for a language server to initialize.
+const warmSessions: Session[] = [];
+
+// The pool is empty until it's configured.
+let warmPoolOptions: WarmPoolOptions = { size: 0, refillDelay: 0 };
+
+// Number of warm sessions that are in the process of being launched.
+let pendingWarmSessionCount = 0;
+
+// Timer for refilling the warm pool.
+let warmPoolRefillTimer: NodeJS.Timeout | undefined;
+
+export interface SessionLimits {
+  // Maximum size (in MB) of a language server's heap. Zero means no limit.
+  maxMemory: number;
+
+  // Time (in ms) to wait for a language server to respond to a request.
+  // Zero means no limit.
+  requestTimeout: number;
+
+  // Time (in ms) a language server can keep a CPU core busy before the
+  // watchdog kills it. Zero disables the watchdog.
+  maxBusyTime: number;
+}
+
+// No limits are enforced until they're configured.
+let sessionLimits: SessionLimits = { maxMemory: 0, requestTimeout: 0, maxBusyTime: 0 };
+
+// Sessions whose language server exited while they were in use, mapped to
+// the time they crashed. They're remembered for a while so requests that
+// refer to them can be rejected with a distinct error.
+const crashedSessions = new Map<SessionId, number>();
+const crashedSessionRetention = 10 * 60 * 1000; // 10 minutes
+
+// Timer for the watchdog that checks for runaway language servers.
+let watchdogTimer: NodeJS.Timeout | undefined;
+const watchdogFrequency = 5 * 1000; // 5 seconds
+
+// Fraction of a CPU core that a language server must use for the
+// watchdog to consider it busy.
+const busyCpuThreshold = 0.9;
+
+export interface SessionCapacity {
+  // Maximum number of sessions that can be active at once. Zero means
+  // no limit.
+  maxActiveSessions: number;
+
+  // Maximum number of requests that can wait for a session when the
+  // maximum number of sessions are active.
+  maxQueueLength: number;
+
+  // Time (in ms) a request can wait for a session before it is rejected.
+  queueTimeout: number;
+}
+
+// There is no limit until the capacity is configured.
+let sessionCapacity: SessionCapacity = { maxActiveSessions: 0, maxQueueLength: 0, queueTimeout: 0 };
+
+// Number of sessions that are being created (and aren't yet active) but
+// count toward the maximum number of active sessions.
+let reservedSessionCount = 0;
+
+interface QueuedSessionRequest {
+  // Called when the request reaches the front of the queue and there is
+  // capacity for another session.
+  grant: () => void;
+}
+
+// Requests waiting for capacity, in the order they arrived.
+const sessionQueue: QueuedSessionRequest[] = [];
+
+// Time (in seconds) that clients are asked to wait before retrying a
+// request that was rejected because the server is at capacity.
+const capacityRetryAfter = 10;
+
+// Reported when a session can't be created because the maximum number of
+// sessions are active and too many requests are already waiting.
+export class SessionCapacityError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfter = capacityRetryAfter,
+  ) {
+    super(message);
+  }
+}
+
+// Reported when a session requests a language server version that isn't
+// installed.
+export class VersionNotInstalledError extends Error {}
+
+// Number of sessions created, by where the session came from: a reused
+// inactive session, the warm pool or a newly started language server.
+const sessionStartsCounter = new Counter(
+  "session_starts_total",
+  "Number of sessions created, by source (inactive, warm or cold)",
+);
+
+["inactive", "warm", "cold"].forEach((source) => {
+  sessionStartsCounter.inc({ source }, 0);
+});
+
+const crashesCounter = new Counter(
+  "language_server_crashes_total",
+  "Number of language servers that exited while their session was in use",
+);
+
+const watchdogKillsCounter = new Counter(
+  "language_server_watchdog_kills_total",
+  "Number of language servers killed by the watchdog for excessive CPU usage",
+);
+
+new Gauge("active_sessions", "Number of sessions in use", () => activeSessions.size);
+new Gauge("inactive_sessions", "Number of idle sessions that can be reused", () => {
+  return inactiveSessions.length;
+});
+new Gauge("warm_sessions", "Number of sessions in the warm pool", () => warmSessions.length);
+new Gauge("queued_session_requests", "Number of requests waiting for a session", () => {
+  return sessionQueue.length;
+});
+
+export interface SessionManagerStatus {
+  activeSessions: number;
+  inactiveSessions: number;
+  warmSessions: number;
+  queuedSessionRequests: number;
+  sessionStarts: { inactive: number; warm: number; cold: number };
+  languageServerCrashes: number;
+  watchdogKills: number;
+  capacity: SessionCapacity;
+}
+
+export function getStatus(): SessionManagerStatus {
+  return {
+    activeSessions: activeSessions.size,
+    inactiveSessions: inactiveSessions.length,
+    warmSessions: warmSessions.length,
+    queuedSessionRequests: sessionQueue.length,
+    sessionStarts: {
+      inactive: sessionStartsCounter.get({ source: "inactive" }),
+      warm: sessionStartsCounter.get({ source: "warm" }),
+      cold: sessionStartsCounter.get({ source: "cold" }),
+    },
+    languageServerCrashes: crashesCounter.get(),
+    watchdogKills: watchdogKillsCounter.get(),
+    capacity: sessionCapacity,
+  };
+}
+
 export function getSessionById(id: SessionId) {
   const session = activeSessions.get(id);
 
@@ -44,19 +227,90 @@ export function getSessionById(id: SessionId) {
   return session;
 }
 
-// Allocate a new session and return its ID.
+// Allocate a new session and return its ID. If the maximum number of
+// sessions are active, the request waits in a queue until one is released.
+// The wait can be canceled with the abort signal.
 export async function createSession(
   sessionOptions: SessionOptions | undefined,
+  abortSignal?: AbortSignal,
 ): Promise<SessionId> {
   scheduleSessionLifetimeTimer();
 
-  // See if there are any inactive sessions that can be reused.
-  const inactiveSession = getCompatibleInactiveSession(sessionOptions);
-  if (inactiveSession) {
-    return restartSession(inactiveSession, sessionOptions);
+  const languageServer = getLanguageServerVersion(sessionOptions?.pyrightVersion);
+  if (!languageServer) {
+    throw new VersionNotInstalledError(
+      `Language server version ${sessionOptions?.pyrightVersion ?? ""} is not installed`,
+    );
+  }
+
+  await reserveSessionCapacity(abortSignal);
+
+  try {
+    // See if there are any inactive sessions that can be reused.
+    const inactiveSession = getCompatibleInactiveSession(languageServer, sessionOptions);
+    if (inactiveSession) {
+      sessionStartsCounter.inc({ source: "inactive" });
+      return restartSession(inactiveSession, sessionOptions);
+    }
+
+    // See if there is a pre-initialized session in the warm pool.
+    const warmSession = getCompatibleWarmSession(languageServer, sessionOptions);
+    if (warmSession) {
+      sessionStartsCounter.inc({ source: "warm" });
+      return restartSession(warmSession, sessionOptions);
+    }
+
+    sessionStartsCounter.inc({ source: "cold" });
+    return await startSession(languageServer, sessionOptions);
+  } finally {
+    // If the session was created, it's now counted as an active session.
+    reservedSessionCount--;
+    processSessionQueue();
+  }
+}
+
+// Sets the maximum number of active sessions and the size of the queue
+// of requests that wait for one.
+export function configureSessionCapacity(capacity: SessionCapacity) {
+  sessionCapacity = capacity;
+  processSessionQueue();
+}
+
+// Sets the resource limits for language servers that are launched after
+// this call and starts the watchdog if needed.
+export function configureSessionLimits(limits: SessionLimits) {
+  sessionLimits = limits;
+
+  if (watchdogTimer) {
+    clearInterval(watchdogTimer);
+    watchdogTimer = undefined;
+  }
+
+  if (limits.maxBusyTime > 0) {
+    watchdogTimer = setInterval(killRunawaySessions, watchdogFrequency);
+  }
+}
+
+// Determines whether the session was closed because its language server
+// crashed or was killed by the watchdog.
+export function isSessionCrashed(sessionId: SessionId) {
+  return crashedSessions.has(sessionId);
+}
+
+// Sets the number of default-configured sessions that are kept initialized
+// ahead of demand and starts filling the pool.
+export function configureWarmPool(options: WarmPoolOptions) {
+  warmPoolOptions = options;
+
+  // Discard any sessions beyond the new size.
+  while (warmSessions.length > options.size) {
+    const session = warmSessions.pop();
+    if (session) {
+      terminateSession(session);
+    }
   }
 
-  return startSession("", sessionOptions);
+  scheduleWarmPoolRefill(0);
 }
 
 // Places an existing session into an inactive pool that can be used
@@ -71,6 +325,7 @@ export function recycleSession(sessionId: SessionId) {
 
   activeSessions.delete(sessionId);
   inactiveSessions.push(session);
+  processSessionQueue();
 
   if (inactiveSessions.length > maxInactiveSessionCount) {
     const session = inactiveSessions.shift();
@@ -82,15 +337,43 @@ export function recycleSession(sessionId: SessionId) {
   logger.info(`Recycling session (currently ${inactiveSessions.length} in inactive queue)`);
 }
 
-function startSession(binaryDirPath: string, sessionOptions?: SessionOptions): Promise<SessionId> {
-  return new Promise<SessionId>((resolve, reject) => {
-    // Launch a new instance of the language server in another process.
-    logger.info(`Spawning new pyright language server from ${binaryDirPath}`);
-    const binaryPath = path.join(
-      process.cwd(),
-      binaryDirPath,
-      "./node_modules/pyright/langserver.index.js",
-    );
+async function startSession(
+  languageServer: LanguageServerVersion,
+  sessionOptions?: SessionOptions,
+): Promise<SessionId> {
+  const session = await launchSession(languageServer, sessionOptions);
+
+  // Start tracking the session.
+  session.lastAccessTime = Date.now();
+  activeSessions.set(session.id, session);
+
+  if (session.langClient) {
+    // Warm up the service by requesting diagnostics for the initial files.
+    logger.info("Sending initial code to warm up service");
+
+    warmUpSession(session.langClient, sessionOptions)
+      .then(() => {
+        // Throw away results.
+        logger.info("Received diagnostics from warm up");
+      })
+      .catch((err) => {
+        // Throw away error;
+      });
+  }
+
+  return session.id;
+}
+
+// Launches a new instance of the language server in another process and
+// waits for it to be initialized. The caller is responsible for tracking
+// the resulting session.
+function launchSession(
+  languageServer: LanguageServerVersion,
+  sessionOptions?: SessionOptions,
+): Promise<Session> {
+  return new Promise<Session>((resolve, reject) => {
+    logger.info(`Spawning new ${languageServer.id} language server`);
+    const binaryPath = languageServer.langServerPath;
 
     // Create a temp directory where we can store a synthesized config file.
     const tempDirPath = fs.mkdtempSync(path.join(os.tmpdir(), "pyright_playground"));
@@ -102,64 +385,52 @@ function startSession(binaryDirPath: string, sessionOptions?: SessionOptions): P
     // Synthesize an empty venv directory so that pyright doesn't try to
     // resolve imports using the default Python environment installed on
     // the server's docker container.
-    synthesizeVenvDirectory(tempDirPath);
+    synthesizeVenvDirectory(tempDirPath, sessionOptions);
 
-    const env = { ...process.env };
+    // Synthesize a directory for stub files supplied by the client.
+    synthesizeStubsDirectory(tempDirPath);
 
-    const langServerProcess = fork(
-      binaryPath,
-      ["--node-ipc", `--clientProcessId=${process.pid.toString()}`],
-      {
-        cwd: tempDirPath,
-        silent: true,
-        env,
-      },
-    );
+    const env = { ...process.env };
 
-    // Create a new UUID for a session ID.
-    const sessionId = uuid();
+    // Cap the size of the heap so a pathological snippet can't consume
+    // all of the memory on the machine.
+    const execArgv =
+      sessionLimits.maxMemory > 0 ? [`--max-old-space-size=${sessionLimits.maxMemory}`] : [];
 
-    // Create a new session object.
+    // Create a new session object with a new UUID for a session ID.
     const session: Session = {
-      id: sessionId,
+      id: uuid(),
       lastAccessTime: Date.now(),
       tempDirPath,
+      languageServer,
       options: sessionOptions,
     };
 
-    // Start tracking the session.
-    activeSessions.set(sessionId, session);
+    // Events from the language server process (including its output and
+    // the messages it sends) are logged with the session's ID rather than
+    // the ID of the request that happened to start it.
+    const langServerProcess = runWithLogContext({ sessionId: session.id }, () =>
+      fork(binaryPath, ["--node-ipc", `--clientProcessId=${process.pid.toString()}`], {
+        cwd: tempDirPath,
+        silent: true,
+        env,
+        execArgv,
+      }),
+    );
 
     langServerProcess.on("spawn", () => {
       logger.info(`Pyright language server started`);
       session.langServerProcess = langServerProcess;
-      session.langClient = new LspClient(langServerProcess);
+      session.langClient = new LspClient(langServerProcess, sessionLimits.requestTimeout);
 
       session.langClient
-        .initialize(tempDirPath, sessionOptions)
+        .initialize(tempDirPath)
         .then(() => {
-          if (sessionOptions?.code !== undefined) {
-            if (session.langClient) {
-              // Warm up the service by sending it an empty file.
-              logger.info("Sending initial code to warm up service");
-
-              session.langClient
-                .getDiagnostics(sessionOptions.code)
-                .then(() => {
-                  // Throw away results.
-                  logger.info("Received diagnostics from warm up");
-                })
-                .catch((err) => {
-                  // Throw away error;
-                });
-            }
-          }
-
-          resolve(sessionId);
+          resolve(session);
         })
         .catch((err) => {
           reject(`Failed to start pyright language server connection`);
-          closeSession(sessionId);
+          closeSession(session);
         });
     });
 
@@ -171,17 +442,24 @@ function startSession(binaryDirPath: string, sessionOptions?: SessionOptions): P
         reject(`Failed to spawn pyright language server instance`);
       }
 
-      closeSession(sessionId);
+      closeSession(session);
     });
 
-    langServerProcess.on("exit", (code) => {
-      logger.info(`Pyright language server exited with code ${code}`);
-      closeSession(sessionId);
+    langServerProcess.on("exit", (code, signal) => {
+      logger.info(`Pyright language server exited with code ${code ?? signal}`);
+
+      // If the session was in use, the language server crashed (or was
+      // killed by the watchdog) rather than being terminated by us.
+      if (activeSessions.get(session.id) === session) {
+        recordCrashedSession(session.id);
+      }
+
+      closeSession(session);
     });
 
     langServerProcess.on("close", (code) => {
       logger.info(`Pyright language server closed with code ${code}`);
-      closeSession(sessionId);
+      closeSession(session);
     });
   });
 }
@@ -195,9 +473,9 @@ function restartSession(session: Session, sessionOptions?: SessionOptions): Sess
   // Start tracking the session.
   activeSessions.set(session.id, session);
 
-  if (session.langClient && sessionOptions?.code) {
+  if (session.langClient) {
     // Send the initial code to warm up the service.
-    session.langClient.getDiagnostics(sessionOptions.code).catch((err) => {
+    warmUpSession(session.langClient, sessionOptions).catch((err) => {
       // Throw away error;
     });
   }
@@ -205,21 +483,226 @@ function restartSession(session: Session, sessionOptions?: SessionOptions): Sess
   return session.id;
 }
 
+// Opens the initial files for a session in the language server and
+// waits for their diagnostics.
+async function warmUpSession(langClient: LspClient, sessionOptions?: SessionOptions) {
+  const files = { ...sessionOptions?.files };
+  if (sessionOptions?.code !== undefined && files[defaultDocumentUri] === undefined) {
+    files[defaultDocumentUri] = sessionOptions.code;
+  }
+
+  // Close files left over from the session's previous use. Otherwise they
+  // (stub files in particular) could affect the analysis of these files.
+  await Promise.all(
+    langClient
+      .getOpenDocumentUris()
+      .filter((uri) => uri !== defaultDocumentUri && files[uri] === undefined)
+      .map((uri) => langClient.closeTextDocument(uri)),
+  );
+
+  await Promise.all(Object.keys(files).map((uri) => langClient.getDiagnostics(uri, files[uri])));
+}
+
 // Attempts to close the session and cleans up its resources. It
 // silently fails if it cannot.
-function closeSession(sessionId: SessionId) {
-  const session = activeSessions.get(sessionId);
-  if (!session) {
-    return;
+function closeSession(session: Session) {
+  session.langClient?.cancelRequests();
+
+  if (activeSessions.get(session.id) === session) {
+    activeSessions.delete(session.id);
+    processSessionQueue();
   }
 
-  session.langClient?.cancelRequests();
+  removeFromList(inactiveSessions, session);
 
-  activeSessions.delete(sessionId);
+  if (removeFromList(warmSessions, session)) {
+    // Replace the warm session after a delay in case the language
+    // server is failing repeatedly.
+    scheduleWarmPoolRefill(warmPoolOptions.refillDelay);
+  }
 
   terminateSession(session);
 }
 
+// Waits until there is capacity for another active session and reserves it.
+// Requests are granted capacity in the order they arrive.
+function reserveSessionCapacity(abortSignal?: AbortSignal): Promise<void> {
+  if (sessionQueue.length === 0 && hasSessionCapacity()) {
+    reservedSessionCount++;
+    return Promise.resolve();
+  }
+
+  if (sessionQueue.length >= sessionCapacity.maxQueueLength) {
+    logger.error(`Rejecting session request; ${sessionQueue.length} requests already waiting`);
+    return Promise.reject(new SessionCapacityError("The server is too busy to start a session"));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const removeFromQueue = () => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", handleAbort);
+
+      const index = sessionQueue.indexOf(request);
+      if (index >= 0) {
+        sessionQueue.splice(index, 1);
+      }
+    };
+
+    const handleAbort = () => {
+      removeFromQueue();
+      reject(new Error("Session request was canceled"));
+    };
+
+    const request: QueuedSessionRequest = {
+      grant: () => {
+        removeFromQueue();
+        reservedSessionCount++;
+        resolve();
+      },
+    };
+
+    const timer = setTimeout(() => {
+      removeFromQueue();
+      reject(new SessionCapacityError("Timed out waiting for a session"));
+    }, sessionCapacity.queueTimeout);
+
+    abortSignal?.addEventListener("abort", handleAbort);
+    sessionQueue.push(request);
+
+    logger.info(`Waiting for session capacity (${sessionQueue.length} requests waiting)`);
+  });
+}
+
+function hasSessionCapacity() {
+  return (
+    sessionCapacity.maxActiveSessions <= 0 ||
+    activeSessions.size + reservedSessionCount < sessionCapacity.maxActiveSessions
+  );
+}
+
+// Grants capacity to waiting requests in the order they arrived.
+function processSessionQueue() {
+  while (sessionQueue.length > 0 && hasSessionCapacity()) {
+    sessionQueue[0].grant();
+  }
+}
+
+function recordCrashedSession(sessionId: SessionId) {
+  crashesCounter.inc();
+
+  const curTime = Date.now();
+  crashedSessions.set(sessionId, curTime);
+
+  // Forget about old crashes. The map is ordered by crash time.
+  for (const [id, crashTime] of crashedSessions) {
+    if (curTime - crashTime <= crashedSessionRetention) {
+      break;
+    }
+
+    crashedSessions.delete(id);
+  }
+}
+
+// Kills language servers that have kept a CPU core busy for longer than
+// allowed. This typically happens when analyzing pathological code.
+function killRunawaySessions() {
+  const curTime = Date.now();
+  const sessions = [...activeSessions.values(), ...inactiveSessions, ...warmSessions];
+
+  sessions.forEach((session) => {
+    const pid = session.langServerProcess?.pid;
+    const cpuTime = pid !== undefined ? getProcessCpuTime(pid) : undefined;
+    if (cpuTime === undefined) {
+      return;
+    }
+
+    const prevSample = session.cpuSample;
+    let busySince: number | undefined;
+    if (prevSample && curTime > prevSample.sampleTime) {
+      const cpuUsage = (cpuTime - prevSample.cpuTime) / (curTime - prevSample.sampleTime);
+      if (cpuUsage >= busyCpuThreshold) {
+        busySince = prevSample.busySince ?? prevSample.sampleTime;
+      }
+    }
+
+    session.cpuSample = { cpuTime, sampleTime: curTime, busySince };
+
+    if (busySince !== undefined && curTime - busySince > sessionLimits.maxBusyTime) {
+      logger.error(`Killing runaway language server for session ${session.id}`);
+      watchdogKillsCounter.inc();
+      session.langServerProcess?.kill("SIGKILL");
+    }
+  });
+}
+
+// Returns the CPU time (in ms) consumed by a process or undefined if it
+// can't be determined. This relies on the Linux proc file system.
+function getProcessCpuTime(pid: number): number | undefined {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, "utf8");
+
+    // Skip past the command name, which is enclosed in parentheses and can
+    // contain spaces. The user and system times are the 12th and 13th fields
+    // after it, measured in clock ticks (almost always 1/100 of a second).
+    const fields = stat.substring(stat.lastIndexOf(")") + 2).split(" ");
+    const ticks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+
+    return isNaN(ticks) ? undefined : ticks * 10;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function removeFromList(sessions: Session[], session: Session): boolean {
+  const index = sessions.indexOf(session);
+  if (index < 0) {
+    return false;
+  }
+
+  sessions.splice(index, 1);
+  return true;
+}
+
+// If there is no warm pool refill timer, schedule one.
+function scheduleWarmPoolRefill(delay: number) {
+  if (warmPoolRefillTimer) {
+    return;
+  }
+
+  warmPoolRefillTimer = setTimeout(() => {
+    warmPoolRefillTimer = undefined;
+
+    // The refill isn't part of the request that happened to schedule it.
+    runWithLogContext({}, refillWarmPool);
+  }, delay);
+}
+
+// Launches enough sessions in the background to bring the warm pool
+// back to its configured size.
+function refillWarmPool() {
+  const languageServer = getDefaultLanguageServerVersion();
+  if (!languageServer) {
+    return;
+  }
+
+  while (warmSessions.length + pendingWarmSessionCount < warmPoolOptions.size) {
+    pendingWarmSessionCount++;
+
+    launchSession(languageServer, /* sessionOptions */ undefined)
+      .then((session) => {
+        warmSessions.push(session);
+        logger.info(`Added session to warm pool (currently ${warmSessions.length} in pool)`);
+      })
+      .catch((err) => {
+        logger.error(`Failed to add session to warm pool: ${err}`);
+        scheduleWarmPoolRefill(warmPoolOptions.refillDelay);
+      })
+      .finally(() => {
+        pendingWarmSessionCount--;
+      });
+  }
+}
+
 function terminateInactiveSessions() {
   // Pop all inactive sessions and terminate them.
   while (true) {
@@ -247,54 +730,167 @@ function terminateSession(session: Session) {
   }
 }
 
-function getCompatibleInactiveSession(sessionOptions?: SessionOptions): Session | undefined {
+function getCompatibleInactiveSession(
+  languageServer: LanguageServerVersion,
+  sessionOptions?: SessionOptions,
+): Session | undefined {
   logger.info(`Looking for compatible inactive session`);
 
-  const sessionIndex = inactiveSessions.findIndex((session) => {
-    if (sessionOptions?.typeCheckingMode !== session.options?.typeCheckingMode) {
-      return false;
-    }
-
-    const requestedOverrides = sessionOptions?.configOverrides || {};
-    const existingOverrides = session.options?.configOverrides || {};
+  const sessionIndex = inactiveSessions.findIndex((session) =>
+    isSessionCompatible(session, languageServer, sessionOptions),
+  );
 
-    if (requestedOverrides.length !== existingOverrides.length) {
-      return false;
-    }
+  if (sessionIndex < 0) {
+    return undefined;
+  }
 
-    for (const key of Object.keys(requestedOverrides)) {
-      if (requestedOverrides[key] !== existingOverrides[key]) {
-        return false;
-      }
-    }
+  logger.info(`Found compatible inactive session`);
+  return inactiveSessions.splice(sessionIndex, 1)[0];
+}
 
-    return true;
-  });
+// Takes a session from the warm pool if the requested options match the
+// default configuration used for warm sessions.
+function getCompatibleWarmSession(
+  languageServer: LanguageServerVersion,
+  sessionOptions?: SessionOptions,
+): Session | undefined {
+  const sessionIndex = warmSessions.findIndex((session) =>
+    isSessionCompatible(session, languageServer, sessionOptions),
+  );
 
   if (sessionIndex < 0) {
     return undefined;
   }
 
-  logger.info(`Found compatible inactive session`);
-  return inactiveSessions.splice(sessionIndex, 1)[0];
+  logger.info(`Taking session from warm pool (${warmSessions.length - 1} remaining)`);
+  const session = warmSessions.splice(sessionIndex, 1)[0];
+
+  scheduleWarmPoolRefill(warmPoolOptions.refillDelay);
+  return session;
 }
 
-function synthesizeVenvDirectory(tempDirPath: string) {
+// Determines whether an existing session was started with a configuration
+// that matches the requested options.
+function isSessionCompatible(
+  session: Session,
+  languageServer: LanguageServerVersion,
+  sessionOptions?: SessionOptions,
+): boolean {
+  if (session.languageServer.id !== languageServer.id) {
+    return false;
+  }
+
+  if (getTypeCheckingMode(sessionOptions) !== getTypeCheckingMode(session.options)) {
+    return false;
+  }
+
+  if (
+    getPythonVersion(sessionOptions) !== getPythonVersion(session.options) ||
+    getPythonPlatform(sessionOptions) !== getPythonPlatform(session.options)
+  ) {
+    return false;
+  }
+
+  if (getPackages(sessionOptions).join(",") !== getPackages(session.options).join(",")) {
+    return false;
+  }
+
+  const requestedConfigFile = sessionOptions?.configFile;
+  const existingConfigFile = session.options?.configFile;
+  if (
+    requestedConfigFile?.format !== existingConfigFile?.format ||
+    requestedConfigFile?.text !== existingConfigFile?.text
+  ) {
+    return false;
+  }
+
+  const requestedOverrides = sessionOptions?.configOverrides || {};
+  const existingOverrides = session.options?.configOverrides || {};
+
+  if (Object.keys(requestedOverrides).length !== Object.keys(existingOverrides).length) {
+    return false;
+  }
+
+  for (const key of Object.keys(requestedOverrides)) {
+    if (requestedOverrides[key] !== existingOverrides[key]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function getTypeCheckingMode(sessionOptions?: SessionOptions): TypeCheckingMode {
+  return sessionOptions?.typeCheckingMode ?? "standard";
+}
+
+function getPythonVersion(sessionOptions?: SessionOptions): string {
+  return sessionOptions?.pythonVersion ?? defaultPythonVersion;
+}
+
+function getPythonPlatform(sessionOptions?: SessionOptions): PythonPlatform {
+  return sessionOptions?.pythonPlatform ?? defaultPythonPlatform;
+}
+
+// Returns the names of the requested packages in a canonical order so
+// two sessions' package selections can be compared.
+function getPackages(sessionOptions?: SessionOptions): string[] {
+  return [...new Set(sessionOptions?.packages ?? [])].sort();
+}
+
+function synthesizeVenvDirectory(tempDirPath: string, sessionOptions?: SessionOptions) {
   const venvPath = path.join(tempDirPath, "venv", "lib", "site-packages");
   fs.mkdirSync(venvPath, { recursive: true });
+
+  // Link the contents of the requested packages into the venv so they
+  // look like they were installed there.
+  sessionOptions?.packages?.forEach((name) => {
+    const libraryPackage = getLibraryPackage(name);
+    if (!libraryPackage) {
+      return;
+    }
+
+    fs.readdirSync(libraryPackage.dirPath).forEach((fileName) => {
+      const linkPath = path.join(venvPath, fileName);
+
+      // If two packages contain the same file, the first one wins.
+      if (!fs.existsSync(linkPath)) {
+        fs.symlinkSync(path.join(libraryPackage.dirPath, fileName), linkPath);
+      }
+    });
+  });
+}
+
+function synthesizeStubsDirectory(tempDirPath: string) {
+  fs.mkdirSync(path.join(tempDirPath, stubsDirName), { recursive: true });
 }
 
 function synthesizePyrightConfigFile(tempDirPath: string, sessionOptions?: SessionOptions) {
   const configFilePath = path.join(tempDirPath, "pyrightconfig.json");
-  const config: any = {
-    pythonVersion: defaultPythonVersion,
-    pythonPlatform: defaultPythonPlatform,
+  const config: PyrightConfig = {
+    pythonVersion: getPythonVersion(sessionOptions),
+    pythonPlatform: getPythonPlatform(sessionOptions),
   };
 
-  if (sessionOptions?.typeCheckingMode === "strict") {
-    config.typeCheckingMode = "strict";
+  config.typeCheckingMode = getTypeCheckingMode(sessionOptions);
+
+  if (sessionOptions?.configOverrides) {
+    Object.keys(sessionOptions.configOverrides).forEach((key) => {
+      config[key] = sessionOptions.configOverrides![key];
+    });
+  }
+
+  if (sessionOptions?.configFile) {
+    const fileConfig = parseConfigFile(sessionOptions.configFile);
+    ignoredConfigFileSettings.forEach((name) => {
+      delete fileConfig[name];
+    });
+    Object.assign(config, fileConfig);
   }
 
+  // The remaining settings are required to sandbox the language server, so
+  // they replace any values supplied by the user.
+
   // Set the venvPath to a synthesized venv to prevent pyright from
   // trying to resolve imports using the default Python environment
   // installed on the server's docker container.
@@ -306,11 +902,11 @@ function synthesizePyrightConfigFile(tempDirPath: string, sessionOptions?: Sessi
   // playground.
   config.skipNativeLibraries = true;
 
-  if (sessionOptions?.configOverrides) {
-    Object.keys(sessionOptions.configOverrides).forEach((key) => {
-      config[key] = sessionOptions.configOverrides![key];
-    });
-  }
+  // Resolve imports of libraries (including stdlib modules) using stub
+  // files that the client places in the stubs directory (for example,
+  // "stubs/requests/__init__.pyi"). The environment contains no libraries
+  // otherwise.
+  config.stubPath = stubsDirName;
 
   const configJson = JSON.stringify(config);
   fs.writeFileSync(configFilePath, configJson);
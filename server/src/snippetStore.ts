@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) Eric Traut
+ * Stores snippets (code and settings) that users save so they can be
+ * shared with a short link. A snippet's ID is derived from a hash of its
+ * content, so saving the same snippet twice produces the same ID.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuid } from "uuid";
+import { logger } from "./logging";
+
+export type SnippetId = string;
+
+// Persists the content of snippets. The default store writes them to the
+// local filesystem, but another implementation (e.g. one backed by a cloud
+// storage service) can be installed with configureSnippets.
+export interface SnippetStore {
+  // Returns the content of the snippet, or undefined if it doesn't exist.
+  get(id: SnippetId): Promise<string | undefined>;
+
+  // Stores the content of a snippet. Content is never changed once it is
+  // stored, so this may be skipped if the snippet already exists.
+  put(id: SnippetId, content: string): Promise<void>;
+}
+
+// Number of characters (of the base64url-encoded hash) in a snippet ID.
+const snippetIdLength = 12;
+
+const snippetIdRegex = new RegExp(`^[A-Za-z0-9_-]{${snippetIdLength}}$`);
+
+// Stores each snippet in a separate file within a directory.
+export class FileSnippetStore implements SnippetStore {
+  constructor(private _dirPath: string) {}
+
+  async get(id: SnippetId): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(this._getFilePath(id), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+
+      throw err;
+    }
+  }
+
+  async put(id: SnippetId, content: string): Promise<void> {
+    await fs.promises.mkdir(this._dirPath, { recursive: true });
+
+    // Write to a temporary file first so a partially-written snippet is
+    // never visible. The temporary file's name is unique so concurrent
+    // saves of the same snippet don't interfere with each other.
+    const filePath = this._getFilePath(id);
+    const tempFilePath = `${filePath}.${uuid()}.tmp`;
+    await fs.promises.writeFile(tempFilePath, content, "utf8");
+
+    try {
+      await fs.promises.rename(tempFilePath, filePath);
+    } catch (err) {
+      await fs.promises.rm(tempFilePath, { force: true });
+
+      // Another save may have stored the same content already.
+      if ((await this.get(id)) !== content) {
+        throw err;
+      }
+    }
+  }
+
+  private _getFilePath(id: SnippetId) {
+    return path.join(this._dirPath, `${id}.json`);
+  }
+}
+
+export interface SnippetOptions {
+  store: SnippetStore;
+
+  // Maximum size (in bytes) of a snippet's content.
+  maxSize: number;
+}
+
+let snippetOptions: SnippetOptions = {
+  store: new FileSnippetStore(path.resolve("snippets")),
+  maxSize: 64 * 1024,
+};
+
+// Reported when the content of a snippet exceeds the maximum size.
+export class SnippetTooLargeError extends Error {}
+
+export function configureSnippets(options: SnippetOptions) {
+  snippetOptions = options;
+}
+
+function isValidSnippetId(id: string) {
+  return snippetIdRegex.test(id);
+}
+
+// Saves the content of a snippet (if it isn't already saved) and returns
+// its ID.
+export async function saveSnippet(content: string): Promise<SnippetId> {
+  if (Buffer.byteLength(content, "utf8") > snippetOptions.maxSize) {
+    throw new SnippetTooLargeError(
+      `Snippet exceeds the maximum size of ${snippetOptions.maxSize} bytes`,
+    );
+  }
+
+  const id = createHash("sha256").update(content).digest("base64url").substring(0, snippetIdLength);
+
+  const existingContent = await snippetOptions.store.get(id);
+  if (existingContent === undefined) {
+    await snippetOptions.store.put(id, content);
+    logger.info(`Saved snippet ${id}`);
+  } else if (existingContent !== content) {
+    throw new Error(`Snippet ID collision for ${id}`);
+  }
+
+  return id;
+}
+
+// Returns the content of a snippet, or undefined if it doesn't exist.
+export async function getSnippet(id: SnippetId): Promise<string | undefined> {
+  if (!isValidSnippetId(id)) {
+    return undefined;
+  }
+
+  return snippetOptions.store.get(id);
+}
@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) Eric Traut
+ * Locates the language server packages (pyright and basedpyright) that are
+ * installed locally and can be used to run a session.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logging";
+
+export type LanguageServerName = "pyright" | "basedpyright";
+
+export interface LanguageServerVersion {
+  // Identifier used to select this version (e.g. "pyright@1.1.393").
+  id: string;
+  name: LanguageServerName;
+  version: string;
+
+  // Path to the script that starts the language server.
+  langServerPath: string;
+}
+
+const languageServerNames: LanguageServerName[] = ["pyright", "basedpyright"];
+
+// Directory that contains additional language server installations unless
+// overridden by the PYRIGHT_LOCAL_DIR environment variable. Each subdirectory
+// is an npm prefix that contains a single pyright or basedpyright package,
+// for example "npm install --prefix pyright_local/1.1.380 pyright@1.1.380".
+const defaultLocalInstallDirPath = "pyright_local";
+
+// The installed versions are discovered the first time they are needed.
+// The server must be restarted to pick up newly installed versions.
+let installedVersions: LanguageServerVersion[] | undefined;
+let defaultVersion: LanguageServerVersion | undefined;
+
+// Returns all installed versions, sorted by name and then by version
+// (newest first).
+export function getLanguageServerVersions(): LanguageServerVersion[] {
+  if (!installedVersions) {
+    findInstalledVersions();
+  }
+
+  return installedVersions!;
+}
+
+// Returns the version used by sessions that don't request a specific one.
+// This is the pyright package bundled with the server.
+export function getDefaultLanguageServerVersion(): LanguageServerVersion | undefined {
+  if (!installedVersions) {
+    findInstalledVersions();
+  }
+
+  return defaultVersion;
+}
+
+// Looks up an installed version by its ID. A bare version number (e.g.
+// "1.1.393") refers to a version of pyright. If no ID is specified, the
+// default version is returned.
+export function getLanguageServerVersion(id?: string): LanguageServerVersion | undefined {
+  if (!id) {
+    return getDefaultLanguageServerVersion();
+  }
+
+  const normalizedId = id.includes("@") ? id : `pyright@${id}`;
+  return getLanguageServerVersions().find((version) => version.id === normalizedId);
+}
+
+export function isLanguageServerVersionInstalled(id: string) {
+  return getLanguageServerVersion(id) !== undefined;
+}
+
+// Determines whether the language server's code actions include edits that
+// the client can apply. Pyright's code actions are only commands (e.g.
+// creating a type stub) that its editor extension runs.
+export function providesCodeActionEdits(languageServer: LanguageServerVersion) {
+  return languageServer.name === "basedpyright";
+}
+
+function findInstalledVersions() {
+  const versions: LanguageServerVersion[] = [];
+
+  defaultVersion = readLanguageServerPackage(process.cwd(), "pyright");
+  if (defaultVersion) {
+    versions.push(defaultVersion);
+  }
+
+  const installDirPath = path.resolve(
+    process.cwd(),
+    process.env.PYRIGHT_LOCAL_DIR || defaultLocalInstallDirPath,
+  );
+  let entries: fs.Dirent[] = [];
+  try {
+    entries = fs.readdirSync(installDirPath, { withFileTypes: true });
+  } catch (e) {
+    // There are no additional installations.
+  }
+
+  entries.forEach((entry) => {
+    if (!entry.isDirectory()) {
+      return;
+    }
+
+    languageServerNames.forEach((name) => {
+      const version = readLanguageServerPackage(path.join(installDirPath, entry.name), name);
+
+      // Skip duplicates of versions that have already been found.
+      if (version && !versions.some((v) => v.id === version.id)) {
+        versions.push(version);
+      }
+    });
+  });
+
+  versions.sort((a, b) => {
+    if (a.name !== b.name) {
+      return languageServerNames.indexOf(a.name) - languageServerNames.indexOf(b.name);
+    }
+
+    return compareVersions(b.version, a.version);
+  });
+
+  logger.info(`Found language server versions: ${versions.map((v) => v.id).join(", ")}`);
+  installedVersions = versions;
+}
+
+// Reads the package.json file of a language server package installed within
+// the specified npm prefix directory.
+function readLanguageServerPackage(
+  prefixDirPath: string,
+  name: LanguageServerName,
+): LanguageServerVersion | undefined {
+  const packageDirPath = path.join(prefixDirPath, "node_modules", name);
+
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(packageDirPath, "package.json"), "utf8"),
+    );
+
+    const langServerScript = packageJson.bin?.[`${name}-langserver`];
+    if (typeof packageJson.version !== "string" || typeof langServerScript !== "string") {
+      return undefined;
+    }
+
+    return {
+      id: `${name}@${packageJson.version}`,
+      name,
+      version: packageJson.version,
+      langServerPath: path.join(packageDirPath, langServerScript),
+    };
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Compares two version strings of the form "1.1.393" numerically.
+function compareVersions(a: string, b: string) {
+  const aParts = a.split(/[.-]/);
+  const bParts = b.split(/[.-]/);
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = parseInt(aParts[i] ?? "0", 10) || 0;
+    const bPart = parseInt(bParts[i] ?? "0", 10) || 0;
+
+    if (aPart !== bPart) {
+      return aPart - bPart;
+    }
+  }
+
+  return 0;
+}
@@ -0,0 +1,60 @@
+// Installs the library packages listed in libraryPackages.json into the
+// packages directory (PACKAGES_DIR) so sessions can select them. Each package
+// is installed with pip into its own subdirectory along with the
+// distributions it needs for type checking (pip's dependency resolution is
+// disabled so the catalog fully determines what's installed). Names of
+// packages can be passed to install only those packages.
+//
+// > npm run vendor-packages [-- <name> ...]
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+require('dotenv').config();
+
+const catalog = require('./libraryPackages.json');
+const packagesDirPath = path.resolve(__dirname, process.env.PACKAGES_DIR || 'packages');
+const python = process.env.PYTHON || 'python3';
+
+const names = process.argv.length > 2 ? process.argv.slice(2) : Object.keys(catalog);
+
+for (const name of names) {
+    const requirements = catalog[name];
+    if (!requirements) {
+        console.error(`Unknown package: ${name}`);
+        process.exit(1);
+    }
+
+    // Install into a temporary directory so a failed install doesn't
+    // replace a working copy of the package.
+    const dirPath = path.join(packagesDirPath, name);
+    const tempDirPath = `${dirPath}.tmp`;
+    fs.rmSync(tempDirPath, { recursive: true, force: true });
+
+    console.log(`Installing ${name}: ${requirements.join(' ')}`);
+    const result = spawnSync(
+        python,
+        [
+            '-m',
+            'pip',
+            'install',
+            '--no-deps',
+            '--only-binary=:all:',
+            '--disable-pip-version-check',
+            '--target',
+            tempDirPath,
+            ...requirements,
+        ],
+        { stdio: 'inherit' }
+    );
+
+    if (result.status !== 0) {
+        fs.rmSync(tempDirPath, { recursive: true, force: true });
+        console.error(`Failed to install ${name}`);
+        process.exit(1);
+    }
+
+    fs.rmSync(dirPath, { recursive: true, force: true });
+    fs.renameSync(tempDirPath, dirPath);
+}
@@ -5,7 +5,11 @@ const outPath = path.resolve(__dirname, 'build');
 module.exports = (_, { mode }) => {
     return {
         context: __dirname,
-        entry: './src/main.ts',
+        entry: {
+            main: './src/main.ts',
+            // Runs in a child process that reads a language server's settings.
+            configSchemaReader: './src/configSchemaReader.ts',
+        },
         target: 'node',
         output: {
             filename: '[name].js',
@@ -16,6 +20,11 @@ module.exports = (_, { mode }) => {
         resolve: {
             extensions: ['.ts', '.js'],
         },
+        externals: {
+            // Optional native dependencies of "ws" that it loads only if present.
+            bufferutil: 'commonjs bufferutil',
+            'utf-8-validate': 'commonjs utf-8-validate',
+        },
         module: {
             rules: [
                 {